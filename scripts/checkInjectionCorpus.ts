@@ -0,0 +1,16 @@
+/**
+ * Injection Corpus Check
+ * Runs the adversarial corpus and exits with status 1 when any snippet's results change
+ */
+
+import { INJECTION_CORPUS, checkInjectionCorpus } from './injectionCorpus.ts';
+
+const failures = checkInjectionCorpus();
+
+if (failures.length > 0) {
+  console.error(`${failures.length} injection corpus check(s) failed:`);
+  for (const failure of failures) console.error(`- ${failure}`);
+  process.exit(1);
+}
+
+console.log(`All ${INJECTION_CORPUS.length} injection corpus entries passed`);
@@ -0,0 +1,98 @@
+/**
+ * Session Durable Object Check
+ * Runs the worker in Miniflare and checks compare-and-set conflicts, alarm expiry, index
+ * counts and per-owner listings of the durable session store; exits with status 1 when any check fails
+ */
+
+import { build } from 'esbuild';
+import { Miniflare } from 'miniflare';
+import type { ChatSession } from '../src/types/index.ts';
+import type { SessionIndexObject, SessionObject } from '../src/services/sessionObjects.ts';
+import { getSessionIndex } from '../src/services/sessionStore.ts';
+
+// Long enough for the TTL check to outlive its alarm, short enough to keep the run quick
+const SHORT_TTL_SECONDS = 1;
+const LONG_TTL_SECONDS = 600;
+const ALARM_WAIT_MS = 2500;
+
+const failures: string[] = [];
+
+function check(name: string, passed: boolean, detail?: unknown): void {
+  if (!passed) {
+    failures.push(detail === undefined ? name : `${name}: ${JSON.stringify(detail)}`);
+  }
+}
+
+function buildSession(id: string, version: number, owner?: string): ChatSession {
+  const now = new Date().toISOString();
+  return { id, version, owner, messages: [], created_at: now, updated_at: now, expires_at: now };
+}
+
+// Miniflare needs a single module, and the worker loads some of its modules lazily
+const bundle = await build({
+  entryPoints: ['src/worker.ts'],
+  bundle: true,
+  format: 'esm',
+  platform: 'neutral',
+  mainFields: ['module', 'main'],
+  external: ['cloudflare:workers', 'node:*'],
+  write: false,
+  logLevel: 'warning',
+});
+
+const mf = new Miniflare({
+  modules: [{ type: 'ESModule', path: 'worker.mjs', contents: bundle.outputFiles[0].text }],
+  compatibilityDate: '2025-07-01',
+  compatibilityFlags: ['nodejs_compat'],
+  bindings: { LLM_PROVIDER: 'mock', NODE_ENV: 'test' },
+  durableObjects: { SESSION_OBJECTS: 'SessionObject', SESSION_INDEX: 'SessionIndexObject' },
+});
+
+try {
+  const sessions = (await mf.getDurableObjectNamespace('SESSION_OBJECTS')) as unknown as
+    DurableObjectNamespace<SessionObject>;
+  const indexes = (await mf.getDurableObjectNamespace('SESSION_INDEX')) as unknown as
+    DurableObjectNamespace<SessionIndexObject>;
+  const session = (id: string) => sessions.get(sessions.idFromName(id));
+  const index = getSessionIndex(indexes);
+  const listed = async (owner: string) =>
+    (await getSessionIndex(indexes, owner).list({ owner, limit: 10, sort: 'created_at', order: 'asc' }))
+      .sessions.map(summary => summary.id).sort();
+
+  // Compare-and-set: only a write from the stored version wins
+  await session('cas').putSession(buildSession('cas', 1), LONG_TTL_SECONDS);
+  check('write from the current version is stored', await session('cas').compareAndSetSession(buildSession('cas', 2), 1, LONG_TTL_SECONDS));
+  check('write from a stale version is refused', !(await session('cas').compareAndSetSession(buildSession('cas', 2), 1, LONG_TTL_SECONDS)));
+  check('delete at a stale version is refused', !(await session('cas').deleteSession(1)));
+
+  const stored = await session('cas').getSession();
+  check('stored session keeps the winning version', stored?.version === 2, stored?.version);
+
+  // Index counts follow writes and deletes, and each owner lists only their own sessions
+  await session('kept').putSession(buildSession('kept', 1, 'alice'), LONG_TTL_SECONDS);
+  await session('expiring').putSession(buildSession('expiring', 1, 'alice'), SHORT_TTL_SECONDS);
+  await session('kept').putSession(buildSession('kept', 2, 'alice'), LONG_TTL_SECONDS);
+  check('index counts every live session', (await index.count()) === 3, await index.count());
+  check('owner lists their sessions', (await listed('alice')).join() === 'expiring,kept', await listed('alice'));
+  check('other owner lists none', (await listed('bob')).length === 0, await listed('bob'));
+
+  check('delete at the current version succeeds', await session('cas').deleteSession(2));
+  check('index drops deleted sessions', (await index.count()) === 2, await index.count());
+
+  // Alarm expiry removes the session and its index entry
+  await new Promise(resolve => setTimeout(resolve, ALARM_WAIT_MS));
+  check('expired session is gone', (await session('expiring').getSession()) === null);
+  check('unexpired session is kept', (await session('kept').getSession())?.id === 'kept');
+  check('index drops expired sessions', (await index.count()) === 1, await index.count());
+  check('owner index drops expired sessions', (await listed('alice')).join() === 'kept', await listed('alice'));
+} finally {
+  await mf.dispose();
+}
+
+if (failures.length > 0) {
+  console.error(`${failures.length} session object check(s) failed:`);
+  for (const failure of failures) console.error(`- ${failure}`);
+  process.exit(1);
+}
+
+console.log('All session object checks passed');
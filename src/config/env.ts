@@ -5,25 +5,84 @@
 import type { EnvConfig, Bindings } from '../types/index.ts';
 import { ValidationError } from '../utils/errors.ts';
 import { logger } from '../utils/logger.ts';
+import { LLM_PROVIDERS, parseFallbackChain } from './models.ts';
+
+// Session storage backends selectable with SESSION_STORE
+export const SESSION_STORES = ['durable', 'kv', 'memory', 'sqlite'] as const;
+
+// Owner of the single ACCESS_TOKEN
+export const DEFAULT_TOKEN_OWNER = 'default';
+
+const OWNER_NAME = /^[\w.@-]+$/;
+
+export interface AccessToken {
+  owner: string;
+  token: string;
+}
+
+/**
+ * Parse ACCESS_TOKENS (owner:token, comma-separated) and ACCESS_TOKEN into owned tokens
+ * Malformed entries are skipped here and reported by validateConfig
+ */
+export function parseAccessTokens(config: EnvConfig): AccessToken[] {
+  const tokens: AccessToken[] = [];
+
+  for (const entry of (config.ACCESS_TOKENS || '').split(',')) {
+    const separator = entry.indexOf(':');
+    const owner = entry.slice(0, separator).trim();
+    const token = entry.slice(separator + 1).trim();
+
+    if (separator > 0 && OWNER_NAME.test(owner) && token) {
+      tokens.push({ owner, token });
+    }
+  }
+
+  if (config.ACCESS_TOKEN) {
+    tokens.push({ owner: DEFAULT_TOKEN_OWNER, token: config.ACCESS_TOKEN });
+  }
+
+  return tokens;
+}
 
 /**
  * Parse and validate environment variables from Cloudflare Workers bindings
  */
 export function getEnv(bindings: Bindings): EnvConfig {
-  const groqApiKey = bindings.GROQ_API_KEY;
+  const llmProvider = bindings.LLM_PROVIDER || 'groq';
+  const groqApiKey = bindings.GROQ_API_KEY || '';
 
-  if (!groqApiKey) {
+  const usesGroq = llmProvider === 'groq'
+    || (bindings.LLM_FALLBACK_CHAIN || '').split(',').some(entry => entry.trim().startsWith('groq:'));
+
+  if (usesGroq && !groqApiKey) {
     throw new ValidationError('GROQ_API_KEY is required');
   }
 
   const config: EnvConfig = {
     NODE_ENV: bindings.NODE_ENV || 'production',
+    LLM_PROVIDER: llmProvider,
+    LLM_MODEL: bindings.LLM_MODEL,
     GROQ_API_KEY: groqApiKey,
+    OPENAI_BASE_URL: bindings.OPENAI_BASE_URL,
+    OPENAI_API_KEY: bindings.OPENAI_API_KEY,
+    ALLOWED_MODELS: bindings.ALLOWED_MODELS,
+    LLM_FALLBACK_CHAIN: bindings.LLM_FALLBACK_CHAIN,
+    REVIEW_CACHE_TTL: bindings.REVIEW_CACHE_TTL || '86400',
+    LLM_TIMEOUT_MS: bindings.LLM_TIMEOUT_MS || '30000',
+    LLM_MAX_RETRIES: bindings.LLM_MAX_RETRIES || '2',
+    CIRCUIT_BREAKER_THRESHOLD: bindings.CIRCUIT_BREAKER_THRESHOLD || '5',
+    CIRCUIT_BREAKER_RESET_SECONDS: bindings.CIRCUIT_BREAKER_RESET_SECONDS || '30',
     ACCESS_TOKEN: bindings.ACCESS_TOKEN,
+    ACCESS_TOKENS: bindings.ACCESS_TOKENS,
     ALLOWED_ORIGINS: bindings.ALLOWED_ORIGINS || '*',
     RATE_LIMIT_REQUESTS: bindings.RATE_LIMIT_REQUESTS || '20',
     RATE_LIMIT_WINDOW: bindings.RATE_LIMIT_WINDOW || '60',
     MAX_CODE_LENGTH: bindings.MAX_CODE_LENGTH || '10000',
+    MAX_TOTAL_CODE_LENGTH: bindings.MAX_TOTAL_CODE_LENGTH || '50000',
+    MAX_CHUNKED_CODE_LENGTH: bindings.MAX_CHUNKED_CODE_LENGTH || '200000',
+    REVIEW_CHUNK_CONCURRENCY: bindings.REVIEW_CHUNK_CONCURRENCY || '3',
+    MAX_GUIDELINES_LENGTH: bindings.MAX_GUIDELINES_LENGTH || '4000',
+    SESSION_STORE: bindings.SESSION_STORE,
   };
 
   logger.setEnvironment(config.NODE_ENV);
@@ -37,10 +96,24 @@ export function getEnv(bindings: Bindings): EnvConfig {
 export function validateConfig(config: EnvConfig): void {
   const errors: string[] = [];
 
-  if (!config.GROQ_API_KEY || config.GROQ_API_KEY.length < 10) {
+  if (!(LLM_PROVIDERS as readonly string[]).includes(config.LLM_PROVIDER)) {
+    errors.push(`LLM_PROVIDER must be one of: ${LLM_PROVIDERS.join(', ')}`);
+  }
+
+  // Every provider used by the primary model or the fallback chain needs its credentials
+  const providers = new Set([
+    config.LLM_PROVIDER,
+    ...parseFallbackChain(config).map(entry => entry.provider),
+  ]);
+
+  if (providers.has('groq') && (!config.GROQ_API_KEY || config.GROQ_API_KEY.length < 10)) {
     errors.push('Invalid GROQ_API_KEY');
   }
 
+  if (providers.has('openai') && !config.OPENAI_BASE_URL) {
+    errors.push('OPENAI_BASE_URL is required for the openai provider');
+  }
+
   const rateLimitRequests = parseInt(config.RATE_LIMIT_REQUESTS, 10);
   if (isNaN(rateLimitRequests) || rateLimitRequests < 1) {
     errors.push('RATE_LIMIT_REQUESTS must be a positive number');
@@ -56,6 +129,70 @@ export function validateConfig(config: EnvConfig): void {
     errors.push('MAX_CODE_LENGTH must be at least 100');
   }
 
+  const maxTotalCodeLength = parseInt(config.MAX_TOTAL_CODE_LENGTH, 10);
+  if (isNaN(maxTotalCodeLength) || maxTotalCodeLength < 100) {
+    errors.push('MAX_TOTAL_CODE_LENGTH must be at least 100');
+  }
+
+  const maxChunkedCodeLength = parseInt(config.MAX_CHUNKED_CODE_LENGTH, 10);
+  if (isNaN(maxChunkedCodeLength) || maxChunkedCodeLength < maxCodeLength) {
+    errors.push('MAX_CHUNKED_CODE_LENGTH must be at least MAX_CODE_LENGTH');
+  }
+
+  const chunkConcurrency = parseInt(config.REVIEW_CHUNK_CONCURRENCY, 10);
+  if (isNaN(chunkConcurrency) || chunkConcurrency < 1) {
+    errors.push('REVIEW_CHUNK_CONCURRENCY must be a positive number');
+  }
+
+  const maxGuidelinesLength = parseInt(config.MAX_GUIDELINES_LENGTH, 10);
+  if (isNaN(maxGuidelinesLength) || maxGuidelinesLength < 100) {
+    errors.push('MAX_GUIDELINES_LENGTH must be at least 100');
+  }
+
+  const tokenEntries = (config.ACCESS_TOKENS || '').split(',').filter(entry => entry.trim());
+  const accessTokens = parseAccessTokens(config);
+  if (tokenEntries.length + (config.ACCESS_TOKEN ? 1 : 0) !== accessTokens.length) {
+    errors.push('ACCESS_TOKENS must be comma-separated owner:token pairs with owners of letters, digits, _ . @ -');
+  }
+  if (new Set(accessTokens.map(entry => entry.token)).size !== accessTokens.length) {
+    errors.push('ACCESS_TOKENS must not reuse a token');
+  }
+
+  if (config.SESSION_STORE && !(SESSION_STORES as readonly string[]).includes(config.SESSION_STORE)) {
+    errors.push(`SESSION_STORE must be one of: ${SESSION_STORES.join(', ')}`);
+  }
+
+  const cacheTtl = parseInt(config.REVIEW_CACHE_TTL, 10);
+  if (isNaN(cacheTtl) || cacheTtl < 0) {
+    errors.push('REVIEW_CACHE_TTL must be zero (disabled) or a positive number of seconds');
+  }
+
+  const timeoutMs = parseInt(config.LLM_TIMEOUT_MS, 10);
+  if (isNaN(timeoutMs) || timeoutMs < 1000) {
+    errors.push('LLM_TIMEOUT_MS must be at least 1000');
+  }
+
+  const maxRetries = parseInt(config.LLM_MAX_RETRIES, 10);
+  if (isNaN(maxRetries) || maxRetries < 0) {
+    errors.push('LLM_MAX_RETRIES must be zero or a positive number');
+  }
+
+  const breakerThreshold = parseInt(config.CIRCUIT_BREAKER_THRESHOLD, 10);
+  if (isNaN(breakerThreshold) || breakerThreshold < 1) {
+    errors.push('CIRCUIT_BREAKER_THRESHOLD must be a positive number');
+  }
+
+  const breakerReset = parseInt(config.CIRCUIT_BREAKER_RESET_SECONDS, 10);
+  if (isNaN(breakerReset) || breakerReset < 1) {
+    errors.push('CIRCUIT_BREAKER_RESET_SECONDS must be a positive number');
+  }
+
+  for (const entry of parseFallbackChain(config)) {
+    if (!(LLM_PROVIDERS as readonly string[]).includes(entry.provider)) {
+      errors.push(`Unknown provider in LLM_FALLBACK_CHAIN: ${entry.provider}`);
+    }
+  }
+
   if (errors.length > 0) {
     throw new ValidationError('Configuration validation failed', { errors });
   }
@@ -64,10 +201,29 @@ export function validateConfig(config: EnvConfig): void {
 // Development environment configuration for Bun
 export const env: EnvConfig = {
   NODE_ENV: process.env.NODE_ENV || 'development',
+  LLM_PROVIDER: process.env.LLM_PROVIDER || 'groq',
+  LLM_MODEL: process.env.LLM_MODEL,
   GROQ_API_KEY: process.env.GROQ_API_KEY || '',
+  OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+  OPENAI_API_KEY: process.env.OPENAI_API_KEY,
+  ALLOWED_MODELS: process.env.ALLOWED_MODELS,
+  LLM_FALLBACK_CHAIN: process.env.LLM_FALLBACK_CHAIN,
+  REVIEW_CACHE_TTL: process.env.REVIEW_CACHE_TTL || '86400',
+  LLM_TIMEOUT_MS: process.env.LLM_TIMEOUT_MS || '30000',
+  LLM_MAX_RETRIES: process.env.LLM_MAX_RETRIES || '2',
+  CIRCUIT_BREAKER_THRESHOLD: process.env.CIRCUIT_BREAKER_THRESHOLD || '5',
+  CIRCUIT_BREAKER_RESET_SECONDS: process.env.CIRCUIT_BREAKER_RESET_SECONDS || '30',
   ACCESS_TOKEN: process.env.ACCESS_TOKEN,
+  ACCESS_TOKENS: process.env.ACCESS_TOKENS,
   ALLOWED_ORIGINS: process.env.ALLOWED_ORIGINS || '*',
   RATE_LIMIT_REQUESTS: process.env.RATE_LIMIT_REQUESTS || '20',
   RATE_LIMIT_WINDOW: process.env.RATE_LIMIT_WINDOW || '60',
   MAX_CODE_LENGTH: process.env.MAX_CODE_LENGTH || '10000',
+  MAX_TOTAL_CODE_LENGTH: process.env.MAX_TOTAL_CODE_LENGTH || '50000',
+  MAX_CHUNKED_CODE_LENGTH: process.env.MAX_CHUNKED_CODE_LENGTH || '200000',
+  REVIEW_CHUNK_CONCURRENCY: process.env.REVIEW_CHUNK_CONCURRENCY || '3',
+  MAX_GUIDELINES_LENGTH: process.env.MAX_GUIDELINES_LENGTH || '4000',
+  GUIDELINES_DIR: process.env.GUIDELINES_DIR,
+  SESSION_STORE: process.env.SESSION_STORE || 'memory',
+  SESSION_DB_PATH: process.env.SESSION_DB_PATH,
 };
@@ -0,0 +1,285 @@
+/**
+ * Language Configuration
+ * Maps file names and extensions to the language identifiers used in review prompts
+ */
+
+// Extension (lowercase, without the dot) to language identifier
+export const EXTENSION_LANGUAGES: Record<string, string> = {
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  jsx: 'javascript',
+  ts: 'typescript',
+  mts: 'typescript',
+  cts: 'typescript',
+  tsx: 'typescript',
+  py: 'python',
+  pyi: 'python',
+  java: 'java',
+  cs: 'csharp',
+  go: 'go',
+  rs: 'rust',
+  php: 'php',
+  rb: 'ruby',
+  swift: 'swift',
+  kt: 'kotlin',
+  kts: 'kotlin',
+  c: 'c',
+  h: 'c',
+  cc: 'cpp',
+  cpp: 'cpp',
+  cxx: 'cpp',
+  hpp: 'cpp',
+  hh: 'cpp',
+  scala: 'scala',
+  sql: 'sql',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  ps1: 'powershell',
+  html: 'html',
+  htm: 'html',
+  vue: 'vue',
+  svelte: 'svelte',
+  css: 'css',
+  scss: 'scss',
+  json: 'json',
+  yml: 'yaml',
+  yaml: 'yaml',
+  toml: 'toml',
+  xml: 'xml',
+  md: 'markdown',
+  tf: 'terraform',
+  dart: 'dart',
+  lua: 'lua',
+  r: 'r',
+};
+
+// Well-known file names without a meaningful extension
+export const FILENAME_LANGUAGES: Record<string, string> = {
+  dockerfile: 'dockerfile',
+  makefile: 'makefile',
+  gemfile: 'ruby',
+  rakefile: 'ruby',
+  'cmakelists.txt': 'cmake',
+};
+
+/**
+ * Infer a file's language from its path, or undefined when unknown
+ */
+export function inferLanguageFromPath(path: string): string | undefined {
+  const name = path.split(/[\\/]/).pop()?.toLowerCase() || '';
+
+  if (FILENAME_LANGUAGES[name]) {
+    return FILENAME_LANGUAGES[name];
+  }
+
+  const dot = name.lastIndexOf('.');
+  if (dot <= 0) {
+    return undefined;
+  }
+
+  return EXTENSION_LANGUAGES[name.slice(dot + 1)];
+}
+
+// Interpreter named on a shebang line, without its version, to language identifier
+export const SHEBANG_LANGUAGES: Record<string, string> = {
+  node: 'javascript',
+  deno: 'typescript',
+  'ts-node': 'typescript',
+  bun: 'typescript',
+  python: 'python',
+  ruby: 'ruby',
+  php: 'php',
+  perl: 'perl',
+  sh: 'shell',
+  bash: 'shell',
+  zsh: 'shell',
+  pwsh: 'powershell',
+  lua: 'lua',
+  Rscript: 'r',
+};
+
+// Weighted keyword and syntax signals used to classify code without a file name
+export const LANGUAGE_SIGNALS: Record<string, [RegExp, number][]> = {
+  javascript: [
+    [/\b(const|let)\s+[\w$]+\s*=/, 1],
+    [/=>\s*[{(\w]/, 1],
+    [/\bfunction\s*[\w$]*\s*\(/, 1],
+    [/\brequire\(['"][^'"]+['"]\)/, 2],
+    [/\bmodule\.exports\b|\bexports\.\w+\s*=/, 3],
+    [/\b(console\.log|document\.|window\.|JSON\.(parse|stringify))/, 2],
+    [/\bimport\s+.+\s+from\s+['"]/, 1],
+    [/===|!==/, 1],
+  ],
+  typescript: [
+    [/\b(interface|type)\s+\w+(<[^>]*>)?\s*(=|\{|extends)/, 3],
+    [/\b[\w$]+\s*\??:\s*(string|number|boolean|any|unknown|void|never)(\[\])?\b/, 3],
+    [/\)\s*:\s*(Promise<|[\w$]+(\[\])?\s*\{)/, 2],
+    [/\bas\s+(const|unknown|any|[A-Z]\w*)\b/, 2],
+    [/\b(public|private|protected|readonly)\s+[\w$]+\s*[:;=(]/, 1],
+    [/\bimport\s+type\b|\benum\s+\w+\s*\{/, 3],
+  ],
+  python: [
+    [/^\s*def\s+\w+\s*\(.*\)\s*(->\s*[\w\[\], .]+)?:\s*$/m, 3],
+    [/^\s*(from\s+[\w.]+\s+)?import\s+[\w.]+(\s+as\s+\w+)?\s*$/m, 1],
+    [/^\s*class\s+\w+(\(.*\))?:\s*$/m, 3],
+    [/\bself\.\w+/, 2],
+    [/^\s*(elif|except|finally)\b.*:\s*$/m, 3],
+    [/\b(True|False|None)\b/, 1],
+    [/\bprint\(|\b__name__\s*==/, 2],
+    [/^\s*@\w+(\.\w+)*(\(.*\))?\s*$/m, 1],
+  ],
+  java: [
+    [/\bpublic\s+(static\s+)?(final\s+)?class\s+\w+/, 2],
+    [/\bpublic\s+static\s+void\s+main\s*\(\s*String/, 4],
+    [/\bSystem\.out\.print(ln)?\(/, 4],
+    [/^\s*import\s+java(x)?\.[\w.]+;/m, 4],
+    [/^\s*package\s+[\w.]+;/m, 3],
+    [/@(Override|Autowired|Entity|RestController)\b/, 3],
+    [/\b(private|public|protected)\s+(final\s+)?[A-Z]\w*(<.*>)?\s+\w+\s*[;=]/, 1],
+  ],
+  csharp: [
+    [/^\s*using\s+System(\.[\w.]+)?;/m, 4],
+    [/^\s*namespace\s+[\w.]+\s*[{;]?\s*$/m, 2],
+    [/\bConsole\.Write(Line)?\(/, 4],
+    [/\{\s*get;\s*(set;|init;)?\s*\}/, 4],
+    [/\b(public|private|internal)\s+(async\s+)?(Task|void|string|int|bool)(<.*>)?\s+\w+\s*\(/, 2],
+    [/\bvar\s+\w+\s*=\s*new\s+\w+/, 1],
+  ],
+  go: [
+    [/^\s*package\s+\w+\s*$/m, 3],
+    [/^\s*func\s+(\(\w+\s+\*?\w+\)\s+)?\w+\s*\(/m, 3],
+    [/:=/, 2],
+    [/\bfmt\.(Print|Sprint|Errorf)/, 4],
+    [/\bif\s+err\s*!=\s*nil\b/, 4],
+    [/^\s*import\s+\(\s*$/m, 2],
+  ],
+  rust: [
+    [/\bfn\s+\w+\s*(<.*>)?\s*\(.*\)\s*(->\s*[^{]+)?\{/, 3],
+    [/\blet\s+mut\s+\w+/, 4],
+    [/\b(impl|trait)\s+[\w<>]+/, 3],
+    [/\bprintln!\(|\bvec!\[|\bmacro_rules!/, 4],
+    [/^\s*use\s+(std|crate|super)::/m, 4],
+    [/&(mut\s+)?self\b|\bOption<|\bResult<|\.unwrap\(\)/, 2],
+    [/^\s*#\[derive\(/m, 4],
+  ],
+  php: [
+    [/<\?php/, 8],
+    [/\$\w+\s*=/, 1],
+    [/\$this->\w+/, 4],
+    [/\becho\s+["'$]/, 2],
+    [/\bfunction\s+\w+\s*\(\s*(\??\w+\s+)?\$\w+/, 3],
+    [/->\w+\(/, 1],
+  ],
+  ruby: [
+    [/^\s*def\s+\w+[?!]?(\(.*\))?\s*$/m, 3],
+    [/^\s*end\s*$/m, 2],
+    [/^\s*require\s+['"][\w\/]+['"]\s*$/m, 2],
+    [/\battr_(accessor|reader|writer)\b/, 4],
+    [/\bdo\s*\|[\w, ]+\|/, 4],
+    [/\bputs\s+/, 2],
+    [/^\s*class\s+\w+\s*<\s*\w+/m, 3],
+  ],
+  swift: [
+    [/^\s*import\s+(UIKit|SwiftUI|Foundation)\s*$/m, 5],
+    [/\bfunc\s+\w+\s*\(.*\)\s*(->\s*\w+)?\s*\{/, 2],
+    [/\bguard\s+let\b|\bif\s+let\b/, 4],
+    [/\bvar\s+\w+\s*:\s*\w+\??\s*(=|\{)/, 1],
+    [/@(State|Published|objc)\b/, 4],
+  ],
+  kotlin: [
+    [/\bfun\s+\w+\s*\(/, 4],
+    [/\bval\s+\w+\s*(:\s*\w+)?\s*=/, 2],
+    [/\bdata\s+class\b|\bcompanion\s+object\b/, 4],
+    [/\bprintln\(/, 1],
+    [/^\s*package\s+[\w.]+\s*$/m, 1],
+  ],
+  c: [
+    [/^\s*#include\s*<[\w.\/]+\.h>/m, 4],
+    [/\bint\s+main\s*\(/, 2],
+    [/\b(printf|malloc|free|sizeof)\s*\(/, 2],
+    [/\b(struct|typedef)\s+\w+/, 1],
+    [/->\w+/, 1],
+  ],
+  cpp: [
+    [/^\s*#include\s*<(iostream|vector|string|memory|map|algorithm)>/m, 5],
+    [/\bstd::\w+/, 4],
+    [/\b(cout|cin)\s*(<<|>>)/, 3],
+    [/\btemplate\s*<|\bnamespace\s+\w+\s*\{/, 3],
+    [/\b(public|private|protected):\s*$/m, 2],
+  ],
+  sql: [
+    [/\bSELECT\b[\s\S]+?\bFROM\b/i, 3],
+    [/\b(INSERT\s+INTO|UPDATE\s+\w+\s+SET|DELETE\s+FROM)\b/i, 3],
+    [/\bCREATE\s+(TABLE|INDEX|VIEW|PROCEDURE)\b/i, 4],
+    [/\b(WHERE|JOIN|GROUP BY|ORDER BY)\b/i, 1],
+  ],
+  shell: [
+    [/^\s*(if|while)\s+\[\[?\s/m, 3],
+    [/^\s*(fi|done|esac)\s*$/m, 4],
+    [/\$\{?\w+\}?/, 1],
+    [/^\s*(export\s+)?[A-Z_]+=\S/m, 1],
+    [/\b(echo|grep|sed|awk|chmod|mkdir)\s+/, 1],
+  ],
+  html: [
+    [/<!DOCTYPE html>/i, 8],
+    [/<(html|head|body|div|span|script)\b[^>]*>/i, 3],
+    [/<\/(div|p|span|a|li|ul)>/i, 2],
+  ],
+  css: [
+    [/^\s*[.#]?[\w-]+(\s*[,>+~]\s*[.#]?[\w-]+)*\s*\{\s*$/m, 1],
+    [/^\s*[\w-]+\s*:\s*[^;{]+;\s*$/m, 1],
+    [/@media\b|@keyframes\b/, 4],
+    [/\b(color|margin|padding|display|font-size)\s*:/, 3],
+  ],
+  yaml: [
+    [/^---\s*$/m, 1],
+    [/^\s*[\w-]+:\s*(\|[-+]?|>)?\s*$/m, 1],
+    [/^\s*-\s+[\w-]+:\s/m, 2],
+  ],
+  json: [
+    [/^\s*[{[]\s*$/, 1],
+    [/^\s*"[\w-]+"\s*:\s*("|\d|\{|\[|true|false|null)/m, 3],
+  ],
+};
+
+// Languages that build on another; their score includes the base language's signals
+export const LANGUAGE_BASES: Record<string, string> = {
+  typescript: 'javascript',
+  cpp: 'c',
+};
+
+// Unit test framework used when generating tests for a language
+export const TEST_FRAMEWORKS: Record<string, string> = {
+  javascript: 'Jest',
+  typescript: 'Vitest',
+  python: 'pytest',
+  java: 'JUnit 5',
+  kotlin: 'JUnit 5 with kotlin.test',
+  csharp: 'xUnit',
+  go: 'the standard testing package',
+  rust: 'the built-in #[test] harness',
+  php: 'PHPUnit',
+  ruby: 'RSpec',
+  swift: 'XCTest',
+  cpp: 'GoogleTest',
+  c: 'Unity',
+};
+
+// Documentation comment convention used when generating docs for a language
+export const DOC_STYLES: Record<string, string> = {
+  javascript: 'JSDoc',
+  typescript: 'TSDoc',
+  python: 'PEP 257 docstrings',
+  java: 'Javadoc',
+  kotlin: 'KDoc',
+  csharp: 'XML documentation comments',
+  go: 'Go doc comments',
+  rust: 'rustdoc /// comments',
+  php: 'PHPDoc',
+  ruby: 'YARD',
+  swift: 'Swift Markup /// comments',
+  cpp: 'Doxygen',
+  c: 'Doxygen',
+};
@@ -0,0 +1,136 @@
+/**
+ * Model Catalog
+ * Known models with their context windows and output limits
+ */
+
+import type { EnvConfig, FallbackEntry, ModelInfo } from '../types/index.ts';
+
+export const LLM_PROVIDERS = ['groq', 'openai', 'mock'] as const;
+
+export type LLMProviderName = typeof LLM_PROVIDERS[number];
+
+// Limits used for models that are allowlisted but not in the catalog
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const DEFAULT_MAX_OUTPUT_TOKENS = 2048;
+
+export const MODEL_CATALOG: ModelInfo[] = [
+  {
+    id: 'llama-3.3-70b-versatile',
+    provider: 'groq',
+    label: 'Llama 3.3 70B Versatile',
+    contextWindow: 131072,
+    maxOutputTokens: 32768,
+  },
+  {
+    id: 'llama-3.1-8b-instant',
+    provider: 'groq',
+    label: 'Llama 3.1 8B Instant',
+    contextWindow: 131072,
+    maxOutputTokens: 131072,
+  },
+  {
+    id: 'mixtral-8x7b-32768',
+    provider: 'groq',
+    label: 'Mixtral 8x7B',
+    contextWindow: 32768,
+    maxOutputTokens: 32768,
+  },
+  {
+    id: 'gpt-4o-mini',
+    provider: 'openai',
+    label: 'GPT-4o mini',
+    contextWindow: 128000,
+    maxOutputTokens: 16384,
+  },
+  {
+    id: 'mock-reviewer',
+    provider: 'mock',
+    label: 'Mock Reviewer',
+    contextWindow: 8192,
+    maxOutputTokens: 2048,
+  },
+];
+
+/**
+ * Look up a model by ID, falling back to generic limits for unknown models
+ */
+export function getModelInfo(modelId: string, provider: string): ModelInfo {
+  const known = MODEL_CATALOG.find(model => model.id === modelId);
+
+  if (known) {
+    return known;
+  }
+
+  return {
+    id: modelId,
+    provider,
+    label: modelId,
+    contextWindow: DEFAULT_CONTEXT_WINDOW,
+    maxOutputTokens: DEFAULT_MAX_OUTPUT_TOKENS,
+  };
+}
+
+/**
+ * Parse LLM_FALLBACK_CHAIN into ordered provider/model entries
+ * Entries are "provider:model" or a bare model on the primary provider,
+ * e.g. "groq:llama-3.3-70b-versatile,groq:llama-3.1-8b-instant,openai:qwen2.5-coder:7b"
+ */
+export function parseFallbackChain(config: EnvConfig): FallbackEntry[] {
+  if (!config.LLM_FALLBACK_CHAIN) {
+    return [];
+  }
+
+  return config.LLM_FALLBACK_CHAIN
+    .split(',')
+    .map(entry => entry.trim())
+    .filter(Boolean)
+    .map(entry => {
+      // Model IDs may contain colons (e.g. Ollama tags), so only strip a known provider prefix
+      const separator = entry.indexOf(':');
+      const prefix = separator > 0 ? entry.slice(0, separator) : '';
+
+      if ((LLM_PROVIDERS as readonly string[]).includes(prefix)) {
+        return { provider: prefix, model: entry.slice(separator + 1) };
+      }
+
+      return { provider: config.LLM_PROVIDER, model: entry };
+    });
+}
+
+/**
+ * Get the models that requests are allowed to select
+ * Uses ALLOWED_MODELS when set, otherwise every catalog model of the configured
+ * provider plus the models of the fallback chain
+ */
+export function getAllowedModels(config: EnvConfig, defaultModel: string): ModelInfo[] {
+  const fallbackChain = parseFallbackChain(config);
+  const providerOf = (id: string) =>
+    fallbackChain.find(entry => entry.model === id)?.provider || config.LLM_PROVIDER;
+
+  const ids = config.ALLOWED_MODELS
+    ? config.ALLOWED_MODELS.split(',').map(id => id.trim()).filter(Boolean)
+    : MODEL_CATALOG
+        .filter(model => model.provider === config.LLM_PROVIDER)
+        .map(model => model.id);
+
+  if (!config.ALLOWED_MODELS) {
+    for (const entry of fallbackChain) {
+      if (!ids.includes(entry.model)) {
+        ids.push(entry.model);
+      }
+    }
+  }
+
+  if (!ids.includes(defaultModel)) {
+    ids.unshift(defaultModel);
+  }
+
+  return ids.map(id => getModelInfo(id, providerOf(id)));
+}
+
+/**
+ * Check whether a model is in the allowlist
+ */
+export function isModelAllowed(config: EnvConfig, defaultModel: string, modelId: string): boolean {
+  return getAllowedModels(config, defaultModel).some(model => model.id === modelId);
+}
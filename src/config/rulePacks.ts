@@ -0,0 +1,190 @@
+/**
+ * Language Rule Packs
+ * Pitfalls, idioms and security sinks added to review prompts for each language
+ * Bump a pack's version whenever its rules change; reviews record the versions they used
+ */
+
+import type { RulePack } from '../types/index.ts';
+
+export const RULE_PACKS: RulePack[] = [
+  {
+    id: 'typescript',
+    version: '1.0.0',
+    languages: ['typescript', 'javascript'],
+    pitfalls: [
+      'Loose equality (==) and truthiness checks that treat 0, "" and NaN as missing',
+      'Floating promises: async calls without await, return or .catch()',
+      'async callbacks passed to forEach, which does not wait for them',
+      'Non-null assertions (!) and "as" casts that hide missing values',
+      '"any" types, including implicit any from untyped JSON.parse results',
+      'Mutating shared objects or arrays that callers still hold',
+      'this lost in callbacks passed as unbound methods',
+    ],
+    idioms: [
+      'Prefer const, optional chaining (?.) and nullish coalescing (??)',
+      'Narrow unknown values with type guards instead of casting',
+      'Use discriminated unions for state instead of boolean flags',
+      'Run independent async work with Promise.all',
+    ],
+    securitySinks: [
+      'eval, new Function, setTimeout/setInterval with string arguments',
+      'innerHTML, outerHTML, insertAdjacentHTML, document.write, dangerouslySetInnerHTML',
+      'child_process exec/execSync with interpolated input',
+      'SQL or NoSQL queries built with template literals or concatenation',
+      'Object merges of request data that allow __proto__ pollution',
+      'Redirects and fetch calls to user-controlled URLs (open redirect, SSRF)',
+    ],
+  },
+  {
+    id: 'python',
+    version: '1.0.0',
+    languages: ['python'],
+    pitfalls: [
+      'Mutable default arguments (def f(items=[]))',
+      'Bare except: or except Exception that swallows errors',
+      'Late-binding closures in loops and lambdas',
+      'Comparing to None with == instead of is',
+      'Files and connections opened without a with block',
+      'Blocking calls inside async def functions',
+    ],
+    idioms: [
+      'Use context managers, f-strings and pathlib',
+      'Prefer comprehensions and generators over manual accumulation',
+      'Add type hints to public functions',
+      'Raise specific exceptions and chain them with "from"',
+    ],
+    securitySinks: [
+      'eval, exec and compile on untrusted input',
+      'os.system, subprocess with shell=True, os.popen',
+      'pickle, marshal and yaml.load without SafeLoader',
+      'SQL built with f-strings, % or + instead of parameters',
+      'requests calls with verify=False',
+      'Jinja2 templates with autoescape disabled or |safe on user input',
+    ],
+  },
+  {
+    id: 'go',
+    version: '1.0.0',
+    languages: ['go'],
+    pitfalls: [
+      'Ignored errors (assigned to _ or never checked)',
+      'Goroutines that leak because nothing cancels or drains them',
+      'Loop variables captured by goroutines or closures (before Go 1.22)',
+      'Maps written from several goroutines without a mutex',
+      'defer inside loops, which delays cleanup until the function returns',
+      'nil map writes and nil pointer dereferences on error paths',
+    ],
+    idioms: [
+      'Wrap errors with fmt.Errorf("...: %w", err) and check them with errors.Is/As',
+      'Pass context.Context as the first parameter and respect cancellation',
+      'Keep interfaces small and define them where they are used',
+      'Close response bodies and files with defer right after the error check',
+    ],
+    securitySinks: [
+      'exec.Command with "sh -c" and interpolated input',
+      'database/sql queries built with fmt.Sprintf',
+      'text/template used for HTML instead of html/template',
+      'tls.Config{InsecureSkipVerify: true}',
+      'filepath.Join with user input and no check against the base directory',
+    ],
+  },
+  {
+    id: 'rust',
+    version: '1.0.0',
+    languages: ['rust'],
+    pitfalls: [
+      'unwrap() and expect() on values that can fail at runtime',
+      'unsafe blocks without a documented invariant',
+      'Holding a MutexGuard or RefCell borrow across .await',
+      'Integer overflow in release builds and lossy "as" casts',
+      'Needless clone() of large values to satisfy the borrow checker',
+    ],
+    idioms: [
+      'Propagate errors with ? and typed errors (thiserror/anyhow)',
+      'Borrow (&str, &[T]) in parameters instead of taking ownership',
+      'Use iterators and pattern matching instead of index loops',
+      'Derive Debug, Clone and PartialEq where they make sense',
+    ],
+    securitySinks: [
+      'std::process::Command with sh -c and interpolated input',
+      'SQL built with format! instead of bound parameters',
+      'unsafe pointer arithmetic and transmute',
+      'Deserializing untrusted input without size limits',
+    ],
+  },
+  {
+    id: 'java',
+    version: '1.0.0',
+    languages: ['java', 'kotlin'],
+    pitfalls: [
+      'Comparing strings with == instead of equals',
+      'Resources not closed with try-with-resources',
+      'Catching Exception or Throwable and ignoring it',
+      'Returning null where Optional or an empty collection fits',
+      'Shared mutable state without synchronization',
+      'equals overridden without hashCode',
+    ],
+    idioms: [
+      'Prefer immutable objects, final fields and records',
+      'Use streams for transformations and Optional for absent values',
+      'Inject dependencies through constructors',
+      'Log with parameters instead of string concatenation',
+    ],
+    securitySinks: [
+      'Statement.execute with concatenated SQL instead of PreparedStatement',
+      'Runtime.exec and ProcessBuilder with user input',
+      'ObjectInputStream.readObject on untrusted data',
+      'XML parsers with external entities enabled (XXE)',
+      'Reflection or class loading driven by user input',
+    ],
+  },
+  {
+    id: 'php',
+    version: '1.0.0',
+    languages: ['php'],
+    pitfalls: [
+      'Loose comparison (==) with strings, numbers and null',
+      'Missing strict_types declarations and type declarations',
+      'Errors suppressed with @',
+      'Undefined array keys read without isset or ??',
+    ],
+    idioms: [
+      'Use PDO prepared statements, typed properties and strict comparison (===)',
+      'Use password_hash and password_verify for passwords',
+      'Escape output with htmlspecialchars at render time',
+      'Autoload classes with Composer and follow PSR-12',
+    ],
+    securitySinks: [
+      'mysqli_query or PDO::query with concatenated input',
+      'eval, assert, preg_replace with /e, create_function',
+      'system, exec, shell_exec, passthru and backticks',
+      'include or require with user-controlled paths',
+      'unserialize on untrusted data',
+      'echo of request data without escaping',
+    ],
+  },
+  {
+    id: 'sql',
+    version: '1.0.0',
+    languages: ['sql'],
+    pitfalls: [
+      'UPDATE or DELETE without a WHERE clause',
+      'SELECT * in application queries',
+      'Comparisons with = NULL instead of IS NULL',
+      'Functions on indexed columns in WHERE clauses that prevent index use',
+      'Implicit type conversions in joins and filters',
+      'Missing transactions around multi-statement changes',
+    ],
+    idioms: [
+      'Name columns explicitly and alias tables in joins',
+      'Use constraints (NOT NULL, UNIQUE, FOREIGN KEY) to enforce invariants',
+      'Paginate with keyset conditions instead of large OFFSETs',
+      'Prefer EXISTS to IN for correlated subqueries',
+    ],
+    securitySinks: [
+      'Dynamic SQL (EXEC, EXECUTE IMMEDIATE, sp_executesql) built from concatenated input',
+      'Overly broad GRANTs to application roles',
+      'Plaintext passwords or secrets stored in columns',
+    ],
+  },
+];
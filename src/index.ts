@@ -10,14 +10,23 @@ import { createCorsMiddleware } from './middleware/cors.ts';
 import { createRateLimitMiddleware } from './middleware/rateLimit.ts';
 import { createAuthMiddleware } from './middleware/auth.ts';
 import { createContextService } from './services/context.ts';
-import { createGroqService } from './services/groq.ts';
+import { createLLMProvider } from './services/llm.ts';
+import { createReviewCache } from './services/cache.ts';
+import { createChunkedReviewService } from './services/chunkedReview.ts';
+import { createGuidelineService } from './services/guidelines.ts';
+import { FileGuidelineStore } from './services/guidelineFileStore.ts';
 import { createSessionService } from './services/session.ts';
+import { createSessionStore } from './services/sessionStore.ts';
+import { SqliteSessionStore } from './services/sqliteSessionStore.ts';
 import { AppError } from './utils/errors.ts';
 import { logger as appLogger } from './utils/logger.ts';
 
 // Import routes
 import chatRoutes from './routes/chat.ts';
 import healthRoutes from './routes/health.ts';
+import modelRoutes from './routes/models.ts';
+import profileRoutes from './routes/profiles.ts';
+import projectRoutes from './routes/projects.ts';
 import pageRoutes from './routes/pages.ts';
 
 // Create Hono app
@@ -64,17 +73,31 @@ app.use('*', async (c, next) => {
 
   // Initialize services
   const contextService = createContextService();
-  const groqService = createGroqService(env);
+  const llmProvider = createLLMProvider(env);
+  const reviewCache = createReviewCache(env);
+  const chunkedReviewService = createChunkedReviewService(env, contextService, llmProvider);
+  const guidelineService = createGuidelineService(
+    env,
+    undefined,
+    env.GUIDELINES_DIR ? new FileGuidelineStore(env.GUIDELINES_DIR) : undefined
+  );
+  const sessionStore = env.SESSION_STORE === 'sqlite'
+    ? new SqliteSessionStore(env.SESSION_DB_PATH)
+    : createSessionStore(env);
   const sessionService = createSessionService(
     contextService,
-    groqService
-    // Note: KV not available in dev mode
+    llmProvider,
+    sessionStore,
+    reviewCache,
+    chunkedReviewService,
+    guidelineService
   );
 
   // Store services in context
   c.set('contextService', contextService);
-  c.set('groqService', groqService);
+  c.set('llmProvider', llmProvider);
   c.set('sessionService', sessionService);
+  c.set('guidelineService', guidelineService);
 
   await next();
 });
@@ -91,6 +114,9 @@ app.use('/api/*', createAuthMiddleware(env));
 // Mount routes
 app.route('/', pageRoutes);
 app.route('/api/chat', chatRoutes);
+app.route('/api/models', modelRoutes);
+app.route('/api/profiles', profileRoutes);
+app.route('/api/projects', projectRoutes);
 app.route('/health', healthRoutes);
 
 // 404 handler
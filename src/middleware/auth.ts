@@ -1,19 +1,33 @@
 /**
  * Authentication Middleware (Optional)
+ * Also sets the request's owner identity, which sessions are tied to
  */
 
 import type { Context, MiddlewareHandler } from 'hono';
+import { getCookie, setCookie } from 'hono/cookie';
 import { AuthenticationError } from '../utils/errors.ts';
 import type { EnvConfig } from '../types/index.ts';
+import { parseAccessTokens } from '../config/env.ts';
+
+// Cookie holding the anonymous owner ID when no access tokens are configured
+const OWNER_COOKIE = 'review_owner';
+const OWNER_COOKIE_MAX_AGE = 365 * 24 * 60 * 60;
+
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
 
 /**
  * Create bearer token authentication middleware
- * Only applies if ACCESS_TOKEN is configured
+ * Only applies if ACCESS_TOKEN or ACCESS_TOKENS is configured; the matching token's
+ * owner becomes the request owner. Without tokens, each browser gets an anonymous
+ * owner ID in a cookie
  */
 export function createAuthMiddleware(config: EnvConfig): MiddlewareHandler {
+  const accessTokens = parseAccessTokens(config);
+
   return async (c: Context, next) => {
-    // Skip auth if no ACCESS_TOKEN is configured
-    if (!config.ACCESS_TOKEN) {
+    // Skip auth if no tokens are configured
+    if (accessTokens.length === 0) {
+      c.set('owner', `anon:${getAnonymousOwner(c, config)}`);
       await next();
       return;
     }
@@ -30,10 +44,35 @@ export function createAuthMiddleware(config: EnvConfig): MiddlewareHandler {
       throw new AuthenticationError('Invalid authentication scheme. Use Bearer token.');
     }
 
-    if (!token || token !== config.ACCESS_TOKEN) {
+    const match = token ? accessTokens.find(entry => entry.token === token) : undefined;
+
+    if (!match) {
       throw new AuthenticationError('Invalid access token');
     }
 
+    c.set('owner', `user:${match.owner}`);
     await next();
   };
 }
+
+/**
+ * Anonymous owner ID from the cookie, issuing a new one when missing or malformed
+ */
+function getAnonymousOwner(c: Context, config: EnvConfig): string {
+  const existing = getCookie(c, OWNER_COOKIE);
+
+  if (existing && UUID.test(existing)) {
+    return existing;
+  }
+
+  const ownerId = crypto.randomUUID();
+  setCookie(c, OWNER_COOKIE, ownerId, {
+    path: '/',
+    httpOnly: true,
+    sameSite: 'Lax',
+    secure: config.NODE_ENV === 'production',
+    maxAge: OWNER_COOKIE_MAX_AGE,
+  });
+
+  return ownerId;
+}
@@ -17,8 +17,8 @@ export function createCorsMiddleware(config: EnvConfig): MiddlewareHandler {
   return cors({
     origin: allowedOrigins,
     allowMethods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-    allowHeaders: ['Content-Type', 'Authorization'],
-    exposeHeaders: ['Content-Length', 'X-Request-Id'],
+    allowHeaders: ['Content-Type', 'Authorization', 'If-Match', 'If-None-Match'],
+    exposeHeaders: ['Content-Length', 'X-Request-Id', 'ETag'],
     maxAge: 600,
     credentials: true,
   });
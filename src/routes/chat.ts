@@ -5,12 +5,185 @@
 
 import { Hono } from 'hono';
 import type { Context } from 'hono';
-import type { Bindings, CodeReviewRequest } from '../types/index.ts';
-import { ValidationError } from '../utils/errors.ts';
+import { streamSSE } from 'hono/streaming';
+import type {
+  Bindings,
+  ChatSession,
+  CodeReviewRequest,
+  EnvConfig,
+  FollowUpAction,
+  ReviewFile,
+  SessionPage,
+} from '../types/index.ts';
+import { AppError, PreconditionFailedError, ValidationError } from '../utils/errors.ts';
 import { logger } from '../utils/logger.ts';
+import { isModelAllowed } from '../config/models.ts';
+import { getReviewProfile } from '../config/profiles.ts';
+import { REQUEST_MODES } from '../services/intent.ts';
+import { EXPORT_FORMATS, exportSession } from '../services/export.ts';
+import type { ExportFormat } from '../services/export.ts';
 
 const chat = new Hono<{ Bindings: Bindings }>();
 
+// Upper bound on files in a single multi-file review
+const MAX_REVIEW_FILES = 20;
+
+// Page sizes for session listings
+const DEFAULT_SESSION_PAGE_SIZE = 20;
+const MAX_SESSION_PAGE_SIZE = 100;
+
+// Actions that work on the last reviewed code in a session; fix has its own route
+const FOLLOW_UP_ACTIONS: FollowUpAction[] = ['explain', 'tests', 'docs'];
+
+/**
+ * Validate the files of a multi-file review against the combined size limit
+ */
+function parseReviewFiles(files: unknown, config: EnvConfig): ReviewFile[] {
+  if (!Array.isArray(files) || files.length === 0) {
+    throw new ValidationError('Files must be a non-empty array');
+  }
+
+  if (files.length > MAX_REVIEW_FILES) {
+    throw new ValidationError(`A review can include at most ${MAX_REVIEW_FILES} files`);
+  }
+
+  const paths = new Set<string>();
+  let totalLength = 0;
+
+  const parsed = files.map((file, index) => {
+    const { path, content, language } = (file || {}) as ReviewFile;
+
+    if (!path || typeof path !== 'string' || path.trim().length === 0) {
+      throw new ValidationError(`files[${index}].path is required and must be a string`);
+    }
+
+    if (typeof content !== 'string') {
+      throw new ValidationError(`files[${index}].content must be a string`);
+    }
+
+    if (language !== undefined && typeof language !== 'string') {
+      throw new ValidationError(`files[${index}].language must be a string`);
+    }
+
+    const normalizedPath = path.trim();
+    if (paths.has(normalizedPath)) {
+      throw new ValidationError('File paths must be unique', { path: normalizedPath });
+    }
+    paths.add(normalizedPath);
+
+    totalLength += content.length;
+
+    return { path: normalizedPath, content, language: language || undefined };
+  });
+
+  const maxTotalLength = parseInt(config.MAX_TOTAL_CODE_LENGTH, 10);
+  if (totalLength > maxTotalLength) {
+    throw new ValidationError(`Files exceed maximum combined length of ${maxTotalLength} characters`);
+  }
+
+  if (parsed.every(file => file.content.trim().length === 0)) {
+    throw new ValidationError('Files cannot all be empty');
+  }
+
+  return parsed;
+}
+
+/**
+ * Parse and validate a code review request body
+ */
+async function parseReviewRequest(c: Context, config: EnvConfig): Promise<CodeReviewRequest> {
+  const llmProvider = c.get('llmProvider');
+  const body = await c.req.json();
+  const {
+    session_id,
+    code,
+    diff,
+    files,
+    language,
+    context,
+    model,
+    structured,
+    force_refresh,
+    profile,
+    project_id,
+    mode,
+  } = body as CodeReviewRequest;
+
+  // Validation
+  if ([code, diff, files].filter(value => value !== undefined).length > 1) {
+    throw new ValidationError('Provide only one of code, diff or files');
+  }
+
+  let reviewFiles: ReviewFile[] | undefined;
+
+  if (files !== undefined) {
+    // Multi-file reviews are limited by their combined size instead
+    reviewFiles = parseReviewFiles(files, config);
+  } else {
+    const label = diff !== undefined ? 'Diff' : 'Code';
+    const input = diff !== undefined ? diff : code;
+
+    if (!input || typeof input !== 'string') {
+      throw new ValidationError(`${label} is required and must be a string`);
+    }
+
+    // Code over MAX_CODE_LENGTH is reviewed in chunks, up to a hard ceiling
+    const maxCodeLength = parseInt(
+      diff !== undefined ? config.MAX_CODE_LENGTH : config.MAX_CHUNKED_CODE_LENGTH,
+      10
+    );
+    if (input.length > maxCodeLength) {
+      throw new ValidationError(`${label} exceeds maximum length of ${maxCodeLength} characters`);
+    }
+
+    if (input.trim().length === 0) {
+      throw new ValidationError(`${label} cannot be empty`);
+    }
+  }
+
+  if (model !== undefined) {
+    if (typeof model !== 'string' || !isModelAllowed(config, llmProvider.model, model)) {
+      throw new ValidationError('Model is not allowed', { model });
+    }
+  }
+
+  if (structured !== undefined && typeof structured !== 'boolean') {
+    throw new ValidationError('Structured must be a boolean');
+  }
+
+  if (force_refresh !== undefined && typeof force_refresh !== 'boolean') {
+    throw new ValidationError('Force refresh must be a boolean');
+  }
+
+  if (profile !== undefined && (typeof profile !== 'string' || !getReviewProfile(profile))) {
+    throw new ValidationError('Unknown review profile', { profile });
+  }
+
+  if (project_id !== undefined && typeof project_id !== 'string') {
+    throw new ValidationError('Project ID must be a string');
+  }
+
+  if (mode !== undefined && !REQUEST_MODES.includes(mode)) {
+    throw new ValidationError(`Mode must be one of: ${REQUEST_MODES.join(', ')}`, { mode });
+  }
+
+  // Use provided session_id or create new one
+  return {
+    session_id: session_id || crypto.randomUUID(),
+    code,
+    diff,
+    files: reviewFiles,
+    language,
+    context,
+    model,
+    structured,
+    force_refresh,
+    profile,
+    project_id,
+    mode,
+  };
+}
+
 /**
  * POST /api/chat/session
  * Create a new chat session
@@ -18,7 +191,7 @@ const chat = new Hono<{ Bindings: Bindings }>();
 chat.post('/session', async (c: Context) => {
   const sessionService = c.get('sessionService');
 
-  const session = await sessionService.createSession();
+  const session = await sessionService.createSession(c.get('owner'));
 
   return c.json({
     success: true,
@@ -31,44 +204,52 @@ chat.post('/session', async (c: Context) => {
 
 /**
  * POST /api/chat/review
- * Submit code for review
+ * Submit code, a unified diff, or several files for review
  */
 chat.post('/review', async (c: Context) => {
   const sessionService = c.get('sessionService');
   const config = c.get('config');
 
-  // Parse request body
-  const body = await c.req.json();
-  const { session_id, code, language, context } = body as CodeReviewRequest;
-
-  // Validation
-  if (!code || typeof code !== 'string') {
-    throw new ValidationError('Code is required and must be a string');
-  }
-
-  const maxCodeLength = parseInt(config.MAX_CODE_LENGTH, 10);
-  if (code.length > maxCodeLength) {
-    throw new ValidationError(`Code exceeds maximum length of ${maxCodeLength} characters`);
-  }
-
-  if (code.trim().length === 0) {
-    throw new ValidationError('Code cannot be empty');
-  }
-
-  // Use provided session_id or create new one
-  const sessionId = session_id || crypto.randomUUID();
+  const {
+    session_id: sessionId,
+    code,
+    diff,
+    files,
+    language,
+    context,
+    model,
+    structured,
+    force_refresh: forceRefresh,
+    profile,
+    project_id: projectId,
+    mode,
+  } = await parseReviewRequest(c, config);
+  const inputType = diff !== undefined ? 'diff' : 'code';
+  const input = files ?? diff ?? (code as string);
 
   // Process code review
   const result = await sessionService.processCodeReview(
     sessionId,
-    code,
-    language,
-    context
+    input,
+    {
+      inputType,
+      language,
+      context,
+      model,
+      structured,
+      forceRefresh,
+      profile,
+      projectId,
+      mode,
+      owner: c.get('owner'),
+    }
   );
 
   logger.info('Code review completed', {
     sessionId: result.sessionId,
+    mode: result.mode.mode,
     severity: result.severity,
+    model: result.model,
   });
 
   return c.json({
@@ -77,26 +258,335 @@ chat.post('/review', async (c: Context) => {
       session_id: result.sessionId,
       review: result.review,
       severity: result.severity,
+      findings: result.findings,
+      suggestions: result.suggestions,
+      model: result.model,
+      provider: result.provider,
+      cached: result.cached,
+      language: result.language.language,
+      language_confidence: result.language.confidence,
+      language_source: result.language.source,
+      rule_packs: result.rulePacks,
+      profile: result.profile,
+      project_id: result.projectId,
+      mode: result.mode.mode,
+      mode_source: result.mode.source,
+      structured: result.structured,
       timestamp: new Date().toISOString(),
     },
   });
 });
 
+/**
+ * POST /api/chat/review/stream
+ * Submit code for review and stream the response as Server-Sent Events
+ * Events: delta, severity, done, error
+ */
+chat.post('/review/stream', async (c: Context) => {
+  const sessionService = c.get('sessionService');
+  const config = c.get('config');
+
+  const {
+    session_id: sessionId,
+    code,
+    diff,
+    files,
+    language,
+    context,
+    model,
+    structured,
+    force_refresh: forceRefresh,
+    profile,
+    project_id: projectId,
+    mode,
+  } = await parseReviewRequest(c, config);
+  const inputType = diff !== undefined ? 'diff' : 'code';
+  const input = files ?? diff ?? (code as string);
+
+  return streamSSE(c, async (stream) => {
+    try {
+      const result = await sessionService.processCodeReview(
+        sessionId,
+        input,
+        {
+          inputType,
+          language,
+          context,
+          model,
+          structured,
+          forceRefresh,
+          profile,
+          projectId,
+          mode,
+          owner: c.get('owner'),
+        },
+        async (delta: string) => {
+          await stream.writeSSE({
+            event: 'delta',
+            data: JSON.stringify({ content: delta }),
+          });
+        }
+      );
+
+      await stream.writeSSE({
+        event: 'severity',
+        data: JSON.stringify({ severity: result.severity }),
+      });
+
+      logger.info('Streaming code review completed', {
+        sessionId: result.sessionId,
+        severity: result.severity,
+      });
+
+      await stream.writeSSE({
+        event: 'done',
+        data: JSON.stringify({
+          session_id: result.sessionId,
+          review: result.review,
+          severity: result.severity,
+          findings: result.findings,
+          suggestions: result.suggestions,
+          model: result.model,
+          provider: result.provider,
+          cached: result.cached,
+          language: result.language.language,
+          language_confidence: result.language.confidence,
+          language_source: result.language.source,
+          rule_packs: result.rulePacks,
+          profile: result.profile,
+          project_id: result.projectId,
+          mode: result.mode.mode,
+          mode_source: result.mode.source,
+          structured: result.structured,
+          timestamp: new Date().toISOString(),
+        }),
+      });
+    } catch (error) {
+      logger.error('Streaming code review failed', error);
+
+      await stream.writeSSE({
+        event: 'error',
+        data: JSON.stringify({
+          message: error instanceof AppError ? error.message : 'Internal server error',
+          code: error instanceof AppError ? error.code : 'INTERNAL_ERROR',
+        }),
+      });
+    }
+  });
+});
+
+/**
+ * Parse and validate the body shared by follow-up actions
+ */
+async function parseActionRequest(c: Context) {
+  const llmProvider = c.get('llmProvider');
+  const config = c.get('config');
+  const body = await c.req.json();
+  const { session_id: sessionId, context, model } = body;
+
+  if (!sessionId || typeof sessionId !== 'string') {
+    throw new ValidationError('Session ID is required and must be a string');
+  }
+
+  if (context !== undefined && typeof context !== 'string') {
+    throw new ValidationError('Context must be a string');
+  }
+
+  if (model !== undefined) {
+    if (typeof model !== 'string' || !isModelAllowed(config, llmProvider.model, model)) {
+      throw new ValidationError('Model is not allowed', { model });
+    }
+  }
+
+  return {
+    body,
+    sessionId: sessionId as string,
+    context: context as string | undefined,
+    model: model as string | undefined,
+  };
+}
+
+/**
+ * POST /api/chat/fix
+ * Generate a unified diff for selected findings of the last review, checked to apply cleanly
+ * Body: { session_id: string, finding_ids?: string[], context?: string, model?: string }
+ */
+chat.post('/fix', async (c: Context) => {
+  const sessionService = c.get('sessionService');
+  const { body, sessionId, context, model } = await parseActionRequest(c);
+  const findingIds = body.finding_ids;
+
+  if (
+    findingIds !== undefined
+    && (!Array.isArray(findingIds) || findingIds.length === 0 || !findingIds.every(id => typeof id === 'string'))
+  ) {
+    throw new ValidationError('Finding IDs must be a non-empty array of strings');
+  }
+
+  const result = await sessionService.runFix(sessionId, { findingIds, context, model, owner: c.get('owner') });
+
+  return c.json({
+    success: true,
+    data: {
+      session_id: result.sessionId,
+      patch: result.patch,
+      files: result.files,
+      finding_ids: result.findingIds,
+      attempts: result.attempts,
+      warnings: result.warnings,
+      applicable: result.applicable,
+      model: result.model,
+      provider: result.provider,
+      timestamp: new Date().toISOString(),
+    },
+  });
+});
+
+/**
+ * POST /api/chat/explain | /api/chat/tests | /api/chat/docs
+ * Run a follow-up action on the last reviewed code in a session
+ * Body: { session_id: string, context?: string, model?: string }
+ */
+for (const action of FOLLOW_UP_ACTIONS) {
+  chat.post(`/${action}`, async (c: Context) => {
+    const sessionService = c.get('sessionService');
+    const { sessionId, context, model } = await parseActionRequest(c);
+
+    const result = await sessionService.runAction(sessionId, action, { context, model, owner: c.get('owner') });
+
+    return c.json({
+      success: true,
+      data: {
+        session_id: result.sessionId,
+        action: result.action,
+        response: result.response,
+        code: result.code,
+        framework: result.framework,
+        language: result.language,
+        model: result.model,
+        provider: result.provider,
+        timestamp: new Date().toISOString(),
+      },
+    });
+  });
+}
+
+/**
+ * ETag for a session version
+ */
+function sessionETag(version: number): string {
+  return `"${version}"`;
+}
+
+/**
+ * Whether a session version matches an If-Match or If-None-Match header
+ * Weak validators compare equal, since an ETag names a whole session version
+ */
+function matchesETag(header: string, version: number): boolean {
+  const etag = sessionETag(version);
+
+  return header
+    .split(',')
+    .map(tag => tag.trim().replace(/^W\//, ''))
+    .some(tag => tag === '*' || tag === etag);
+}
+
+/**
+ * Reject the request when If-Match names other versions of the session
+ */
+function checkIfMatch(c: Context, session: ChatSession): void {
+  const ifMatch = c.req.header('If-Match');
+
+  if (ifMatch && !matchesETag(ifMatch, session.version)) {
+    throw new PreconditionFailedError('Session has changed since the given version', {
+      sessionId: session.id,
+      version: session.version,
+      if_match: ifMatch,
+    });
+  }
+}
+
+/**
+ * GET /api/chat/sessions
+ * List the caller's sessions, newest activity first by default
+ * Query: limit (1-100), sort (updated_at | created_at), order (desc | asc), cursor
+ */
+chat.get('/sessions', async (c: Context) => {
+  const sessionService = c.get('sessionService');
+  const { limit, sort = 'updated_at', order = 'desc', cursor } = c.req.query();
+
+  const pageSize = limit === undefined ? DEFAULT_SESSION_PAGE_SIZE : Number(limit);
+  if (!Number.isInteger(pageSize) || pageSize < 1 || pageSize > MAX_SESSION_PAGE_SIZE) {
+    throw new ValidationError(`limit must be a whole number from 1 to ${MAX_SESSION_PAGE_SIZE}`);
+  }
+
+  if (sort !== 'updated_at' && sort !== 'created_at') {
+    throw new ValidationError('sort must be updated_at or created_at');
+  }
+
+  if (order !== 'desc' && order !== 'asc') {
+    throw new ValidationError('order must be desc or asc');
+  }
+
+  const page: SessionPage = await sessionService.listSessions({
+    owner: c.get('owner'),
+    limit: pageSize,
+    sort,
+    order,
+    cursor,
+  });
+
+  return c.json({
+    success: true,
+    data: {
+      sessions: page.sessions.map(session => ({
+        session_id: session.id,
+        title: session.title,
+        message_count: session.message_count,
+        created_at: session.created_at,
+        updated_at: session.updated_at,
+        expires_at: session.expires_at,
+      })),
+      next_cursor: page.next_cursor,
+    },
+  });
+});
+
 /**
  * GET /api/chat/session/:id
- * Get session details
+ * Get session details; only its owner can read an owned session
+ * Returns the session version as an ETag; honors If-Match and If-None-Match
  */
 chat.get('/session/:id', async (c: Context) => {
   const sessionService = c.get('sessionService');
   const sessionId = c.req.param('id');
 
-  const session = await sessionService.getSession(sessionId);
+  const session = await sessionService.getSession(sessionId, c.get('owner'));
+
+  checkIfMatch(c, session);
+  c.header('ETag', sessionETag(session.version));
+
+  const ifNoneMatch = c.req.header('If-None-Match');
+  if (ifNoneMatch && matchesETag(ifNoneMatch, session.version)) {
+    return c.body(null, 304);
+  }
 
   return c.json({
     success: true,
     data: {
       session_id: session.id,
+      version: session.version,
+      title: session.title || null,
+      owned: session.owner === c.get('owner'),
       message_count: session.messages.length,
+      last_review: session.last_review
+        ? {
+            input_type: session.last_review.input_type,
+            language: session.last_review.language,
+            structured: session.last_review.structured === true,
+            reviewed_at: session.last_review.reviewed_at,
+          }
+        : null,
       created_at: session.created_at,
       updated_at: session.updated_at,
       expires_at: session.expires_at,
@@ -104,15 +594,51 @@ chat.get('/session/:id', async (c: Context) => {
   });
 });
 
+/**
+ * GET /api/chat/session/:id/export
+ * Download a session as a Markdown transcript, a JSON dump or SARIF 2.1.0 findings
+ * Only its owner can export an owned session
+ * Query: format (md | json | sarif, default md)
+ */
+chat.get('/session/:id/export', async (c: Context) => {
+  const sessionService = c.get('sessionService');
+  const sessionId = c.req.param('id');
+  const format = c.req.query('format') || 'md';
+
+  if (!(EXPORT_FORMATS as readonly string[]).includes(format)) {
+    throw new ValidationError(`format must be one of: ${EXPORT_FORMATS.join(', ')}`, { format });
+  }
+
+  const session = await sessionService.getSession(sessionId, c.get('owner'));
+  checkIfMatch(c, session);
+
+  const exported = exportSession(session, format as ExportFormat);
+
+  c.header('ETag', sessionETag(session.version));
+  c.header('Content-Type', exported.contentType);
+  c.header('Content-Disposition', `attachment; filename="review-${session.id.slice(0, 8)}.${exported.extension}"`);
+
+  return c.body(exported.body);
+});
+
 /**
  * DELETE /api/chat/session/:id
- * Delete a session
+ * Delete a session; only its owner can
+ * With If-Match, only deletes the session if no one has changed it since that version
  */
 chat.delete('/session/:id', async (c: Context) => {
   const sessionService = c.get('sessionService');
   const sessionId = c.req.param('id');
 
-  await sessionService.deleteSession(sessionId);
+  if (c.req.header('If-Match')) {
+    const session = await sessionService.getSession(sessionId, c.get('owner'));
+    checkIfMatch(c, session);
+
+    // The store re-checks the version, so a write after the check above still wins
+    await sessionService.deleteSession(sessionId, c.get('owner'), session.version);
+  } else {
+    await sessionService.deleteSession(sessionId, c.get('owner'));
+  }
 
   return c.json({
     success: true,
@@ -5,6 +5,7 @@
 import { Hono } from 'hono';
 import type { Context } from 'hono';
 import type { Bindings } from '../types/index.ts';
+import { getCircuitBreakerStatuses } from '../utils/circuitBreaker.ts';
 
 const health = new Hono<{ Bindings: Bindings }>();
 
@@ -35,24 +36,36 @@ health.get('/detailed', async (c: Context) => {
   // Check KV availability
   const kvAvailable = !!c.env.SESSIONS;
 
-  // Get session stats if available
-  let sessionStats = { totalSessions: 0 };
+  // Get session stats if available; a failed count is reported as unknown, never as zero
+  let sessionStats: { totalSessions: number | null; error?: string };
   try {
     sessionStats = await sessionService.getStats();
   } catch {
-    // Ignore errors in health check
+    sessionStats = { totalSessions: null, error: 'Session count unavailable' };
   }
 
+  // Report degraded status while any LLM circuit breaker is open
+  const circuitBreakers = getCircuitBreakerStatuses();
+  const degraded = circuitBreakers.some(breaker => breaker.state === 'open');
+
   return c.json({
-    status: 'healthy',
+    status: degraded ? 'degraded' : 'healthy',
     service: 'ai-code-review-assistant',
     version: '1.0.0',
     environment: config.NODE_ENV,
     timestamp: new Date().toISOString(),
     components: {
       kv_storage: kvAvailable ? 'available' : 'unavailable',
-      groq_api: 'configured',
+      session_store: sessionService.getStoreName(),
+      llm_provider: config.LLM_PROVIDER,
       rate_limiting: 'enabled',
+      circuit_breakers: circuitBreakers.map(breaker => ({
+        name: breaker.name,
+        state: breaker.state,
+        failures: breaker.failures,
+        opened_at: breaker.openedAt,
+        retry_at: breaker.retryAt,
+      })),
     },
     stats: {
       sessions: sessionStats,
@@ -0,0 +1,38 @@
+/**
+ * Model Routes
+ * Lists the models available for code review
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import type { Bindings } from '../types/index.ts';
+import { getAllowedModels } from '../config/models.ts';
+
+const models = new Hono<{ Bindings: Bindings }>();
+
+/**
+ * GET /api/models
+ * List configured models with their limits
+ */
+models.get('/', (c: Context) => {
+  const config = c.get('config');
+  const llmProvider = c.get('llmProvider');
+
+  const allowedModels = getAllowedModels(config, llmProvider.model);
+
+  return c.json({
+    success: true,
+    data: {
+      default_model: llmProvider.model,
+      models: allowedModels.map(model => ({
+        id: model.id,
+        provider: model.provider,
+        label: model.label,
+        context_window: model.contextWindow,
+        max_output_tokens: model.maxOutputTokens,
+      })),
+    },
+  });
+});
+
+export default models;
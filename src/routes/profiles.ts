@@ -0,0 +1,32 @@
+/**
+ * Profile Routes
+ * Lists the review profiles a review can be run with
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import type { Bindings } from '../types/index.ts';
+import { DEFAULT_PROFILE_ID, REVIEW_PROFILES } from '../config/profiles.ts';
+
+const profiles = new Hono<{ Bindings: Bindings }>();
+
+/**
+ * GET /api/profiles
+ * List review profiles with their severity calibration
+ */
+profiles.get('/', (c: Context) => {
+  return c.json({
+    success: true,
+    data: {
+      default_profile: DEFAULT_PROFILE_ID,
+      profiles: REVIEW_PROFILES.map(profile => ({
+        id: profile.id,
+        label: profile.label,
+        description: profile.description,
+        severity: profile.severity,
+      })),
+    },
+  });
+});
+
+export default profiles;
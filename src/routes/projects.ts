@@ -0,0 +1,109 @@
+/**
+ * Project Routes
+ * CRUD for team-defined review guidelines per project
+ */
+
+import { Hono } from 'hono';
+import type { Context } from 'hono';
+import type { Bindings, ProjectGuidelines } from '../types/index.ts';
+import { ValidationError } from '../utils/errors.ts';
+
+const projects = new Hono<{ Bindings: Bindings }>();
+
+/**
+ * Shape a guideline document for API responses
+ */
+function toResponse(document: ProjectGuidelines) {
+  return {
+    project_id: document.project_id,
+    name: document.name,
+    content: document.content,
+    length: document.content.length,
+    created_at: document.created_at,
+    updated_at: document.updated_at,
+  };
+}
+
+/**
+ * GET /api/projects
+ * List projects that have guidelines
+ */
+projects.get('/', async (c: Context) => {
+  const guidelineService = c.get('guidelineService');
+
+  const documents = await guidelineService.list();
+
+  return c.json({
+    success: true,
+    data: {
+      projects: documents.map((document: ProjectGuidelines) => ({
+        project_id: document.project_id,
+        name: document.name,
+        length: document.content.length,
+        updated_at: document.updated_at,
+      })),
+    },
+  });
+});
+
+/**
+ * GET /api/projects/:id/guidelines
+ * Get a project's guidelines
+ */
+projects.get('/:id/guidelines', async (c: Context) => {
+  const guidelineService = c.get('guidelineService');
+
+  const document = await guidelineService.get(c.req.param('id'));
+
+  return c.json({
+    success: true,
+    data: toResponse(document),
+  });
+});
+
+/**
+ * PUT /api/projects/:id/guidelines
+ * Create or replace a project's guidelines; only the owner that created them can replace them
+ * Body: { content: string, name?: string }
+ */
+projects.put('/:id/guidelines', async (c: Context) => {
+  const guidelineService = c.get('guidelineService');
+  const body = await c.req.json().catch(() => null);
+
+  if (!body || typeof body !== 'object') {
+    throw new ValidationError('Request body must be a JSON object');
+  }
+
+  const { document, created } = await guidelineService.save(
+    c.req.param('id'),
+    { name: body.name, content: body.content },
+    c.get('owner')
+  );
+
+  return c.json(
+    {
+      success: true,
+      data: toResponse(document),
+    },
+    created ? 201 : 200
+  );
+});
+
+/**
+ * DELETE /api/projects/:id/guidelines
+ * Delete a project's guidelines; only the owner that created them can delete them
+ */
+projects.delete('/:id/guidelines', async (c: Context) => {
+  const guidelineService = c.get('guidelineService');
+
+  await guidelineService.delete(c.req.param('id'), c.get('owner'));
+
+  return c.json({
+    success: true,
+    data: {
+      message: 'Project guidelines deleted successfully',
+    },
+  });
+});
+
+export default projects;
@@ -0,0 +1,168 @@
+/**
+ * Review Cache
+ * Caches code review results keyed by a hash of the normalized request
+ */
+
+import type { EnvConfig, ReviewFinding, Severity } from '../types/index.ts';
+import { logger } from '../utils/logger.ts';
+import { safeJsonParse } from '../utils/errors.ts';
+
+// Bounds the in-memory backend used when KV is not available
+const MAX_MEMORY_ENTRIES = 500;
+
+export interface CachedReview {
+  review: string;
+  severity: Severity;
+  findings: ReviewFinding[];
+  suggestions: string[];
+  model: string;
+  provider: string;
+  rule_packs: string[];
+  // Missing on entries cached before it was recorded
+  structured?: boolean;
+  created_at: string;
+}
+
+export interface ReviewCacheKeyInput {
+  code: string;
+  inputType: 'code' | 'diff' | 'files';
+  language?: string;
+  context?: string;
+  model: string;
+  structured: boolean;
+  promptVersion: string;
+  rulePacks: string[];
+  profile: string;
+  guidelines?: string;
+}
+
+// Shared across requests so the Bun dev server keeps its cache between calls
+const memoryStore = new Map<string, { value: CachedReview; expiresAt: number }>();
+
+export class ReviewCache {
+  private kv: KVNamespace | null;
+  private ttlSeconds: number;
+
+  constructor(ttlSeconds: number, kv?: KVNamespace) {
+    this.kv = kv || null;
+    this.ttlSeconds = ttlSeconds;
+  }
+
+  /**
+   * Whether caching is turned on (REVIEW_CACHE_TTL > 0)
+   */
+  isEnabled(): boolean {
+    return this.ttlSeconds > 0;
+  }
+
+  /**
+   * Build the cache key from a SHA-256 of the normalized request
+   */
+  async buildKey(input: ReviewCacheKeyInput): Promise<string> {
+    const material = JSON.stringify([
+      input.promptVersion,
+      input.rulePacks,
+      input.profile,
+      input.guidelines || '',
+      input.inputType,
+      input.model,
+      input.structured,
+      (input.language || '').trim().toLowerCase(),
+      (input.context || '').trim(),
+      normalizeCode(input.code),
+    ]);
+
+    const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(material));
+    const hash = Array.from(new Uint8Array(digest))
+      .map(byte => byte.toString(16).padStart(2, '0'))
+      .join('');
+
+    return `review-cache:${hash}`;
+  }
+
+  /**
+   * Get a cached review
+   */
+  async get(key: string): Promise<CachedReview | null> {
+    if (!this.isEnabled()) {
+      return null;
+    }
+
+    try {
+      if (this.kv) {
+        const data = await this.kv.get(key, 'text');
+        return data ? safeJsonParse<CachedReview | null>(data, null) : null;
+      }
+
+      const entry = memoryStore.get(key);
+
+      if (!entry) {
+        return null;
+      }
+
+      if (entry.expiresAt < Date.now()) {
+        memoryStore.delete(key);
+        return null;
+      }
+
+      return entry.value;
+    } catch (error) {
+      // A broken cache must never fail the review
+      logger.warn('Review cache read failed', { error: (error as Error).message });
+      return null;
+    }
+  }
+
+  /**
+   * Store a review
+   */
+  async set(key: string, value: CachedReview): Promise<void> {
+    if (!this.isEnabled()) {
+      return;
+    }
+
+    try {
+      if (this.kv) {
+        // KV requires a TTL of at least 60 seconds
+        await this.kv.put(key, JSON.stringify(value), {
+          expirationTtl: Math.max(60, this.ttlSeconds),
+        });
+        return;
+      }
+
+      if (memoryStore.size >= MAX_MEMORY_ENTRIES) {
+        // Map iterates in insertion order, so the first key is the oldest
+        const oldest = memoryStore.keys().next().value;
+        if (oldest !== undefined) {
+          memoryStore.delete(oldest);
+        }
+      }
+
+      memoryStore.set(key, {
+        value,
+        expiresAt: Date.now() + this.ttlSeconds * 1000,
+      });
+    } catch (error) {
+      logger.warn('Review cache write failed', { error: (error as Error).message });
+    }
+  }
+}
+
+/**
+ * Normalize code so whitespace-only differences share a cache entry
+ */
+function normalizeCode(code: string): string {
+  return code
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .map(line => line.trimEnd())
+    .join('\n')
+    .trim();
+}
+
+// Export factory function
+export function createReviewCache(config: EnvConfig, kv?: KVNamespace): ReviewCache {
+  const ttl = parseInt(config.REVIEW_CACHE_TTL, 10);
+  logger.info('Review cache initialized', { ttl, backend: kv ? 'kv' : 'memory' });
+  return new ReviewCache(ttl, kv);
+}
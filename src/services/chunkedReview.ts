@@ -0,0 +1,203 @@
+/**
+ * Chunked Review Service
+ * Map-reduce review for code larger than a single request can hold
+ */
+
+import type { EnvConfig, LLMCompletion, LLMProvider, ReviewFinding, ReviewProfile } from '../types/index.ts';
+import { AIServiceError } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { mapWithConcurrency } from '../utils/concurrency.ts';
+import { getModelInfo } from '../config/models.ts';
+import type { ContextService } from './context.ts';
+import { splitCode } from './chunker.ts';
+import type { CodeChunk } from './chunker.ts';
+import { dedupeFindings } from './findings.ts';
+import type { StructuredReview } from './findings.ts';
+import { requestStructuredReview } from './structured.ts';
+
+// The merge pass only writes a short summary
+const MERGE_MAX_TOKENS = 400;
+
+export interface ChunkedReviewOptions {
+  language?: string;
+  context?: string;
+  model?: string;
+  profile?: ReviewProfile;
+  projectGuidelines?: string;
+}
+
+export interface ChunkedReviewResult {
+  review: StructuredReview;
+  completion: LLMCompletion;
+  chunkCount: number;
+  failedChunks: number;
+}
+
+interface ChunkOutcome {
+  chunk: CodeChunk;
+  completion: LLMCompletion | null;
+  review: StructuredReview | null;
+  error: unknown;
+}
+
+export class ChunkedReviewService {
+  private contextService: ContextService;
+  private llmProvider: LLMProvider;
+  private chunkSize: number;
+  private concurrency: number;
+
+  constructor(
+    contextService: ContextService,
+    llmProvider: LLMProvider,
+    chunkSize: number,
+    concurrency: number
+  ) {
+    this.contextService = contextService;
+    this.llmProvider = llmProvider;
+    this.chunkSize = chunkSize;
+    this.concurrency = concurrency;
+  }
+
+  /**
+   * Whether code is too large to review in a single request
+   */
+  needsChunking(code: string): boolean {
+    return code.length > this.chunkSize;
+  }
+
+  /**
+   * Review code chunk by chunk, then merge the results into one review
+   */
+  async review(code: string, options: ChunkedReviewOptions = {}): Promise<ChunkedReviewResult> {
+    const chunks = splitCode(code, this.chunkSize);
+    const totalLines = code.split('\n').length;
+    const modelInfo = getModelInfo(options.model || this.llmProvider.model, this.llmProvider.name);
+    const systemPrompt = this.contextService.buildStructuredSystemPrompt(
+      options.language,
+      false,
+      options.profile,
+      options.projectGuidelines
+    );
+
+    logger.info('Chunked review started', {
+      chunkCount: chunks.length,
+      totalLines,
+      concurrency: this.concurrency,
+    });
+
+    // Map: review each chunk on its own, with no conversation history
+    const outcomes = await mapWithConcurrency(chunks, this.concurrency, async (chunk): Promise<ChunkOutcome> => {
+      try {
+        const result = await requestStructuredReview(this.llmProvider, this.contextService, {
+          systemPrompt,
+          userPrompt: this.contextService.buildChunkUserPrompt(chunk, totalLines, options.context),
+          history: [],
+          modelInfo,
+          model: options.model,
+        });
+
+        return { chunk, completion: result.completion, review: result.structured, error: null };
+      } catch (error) {
+        logger.warn('Chunk review failed', {
+          chunk: chunk.index,
+          lines: `${chunk.start_line}-${chunk.end_line}`,
+          error: (error as Error).message,
+        });
+
+        return { chunk, completion: null, review: null, error };
+      }
+    });
+
+    const succeeded = outcomes.filter(outcome => outcome.review !== null);
+    const failed = outcomes.filter(outcome => outcome.review === null);
+
+    if (succeeded.length === 0) {
+      const firstError = failed.find(outcome => outcome.error)?.error;
+      throw firstError || new AIServiceError('No chunk of the code could be reviewed');
+    }
+
+    // Reduce: merge findings across chunks and write one summary
+    const findings = this.mergeFindings(succeeded);
+    const summaries = succeeded
+      .map(outcome => outcome.review!.summary)
+      .filter(summary => summary.length > 0);
+
+    let completion = succeeded[0].completion!;
+    let summary = summaries.join(' ');
+
+    if (succeeded.length > 1) {
+      try {
+        const mergeCompletion = await this.llmProvider.reviewCode(
+          this.contextService.buildMergeSystemPrompt(),
+          this.contextService.buildMergeUserPrompt(summaries, findings, totalLines),
+          [],
+          { model: completion.model, maxTokens: MERGE_MAX_TOKENS }
+        );
+
+        summary = this.llmProvider.sanitizeResponse(mergeCompletion.content).trim() || summary;
+        completion = mergeCompletion;
+      } catch (error) {
+        // The per-chunk summaries still describe the code, so keep them
+        logger.warn('Chunked review merge pass failed', { error: (error as Error).message });
+      }
+    }
+
+    if (failed.length > 0) {
+      const ranges = failed
+        .map(outcome => `${outcome.chunk.start_line}-${outcome.chunk.end_line}`)
+        .join(', ');
+      summary = `${summary} Lines ${ranges} could not be reviewed.`.trim();
+    }
+
+    logger.info('Chunked review merged', {
+      chunkCount: chunks.length,
+      failedChunks: failed.length,
+      findingCount: findings.length,
+    });
+
+    return {
+      review: { summary, findings },
+      completion,
+      chunkCount: chunks.length,
+      failedChunks: failed.length,
+    };
+  }
+
+  /**
+   * Combine chunk findings, dropping line numbers outside their chunk and duplicates
+   */
+  private mergeFindings(outcomes: ChunkOutcome[]): ReviewFinding[] {
+    const combined: ReviewFinding[] = [];
+
+    for (const { chunk, review } of outcomes) {
+      for (const finding of review!.findings) {
+        const inChunk = finding.line_start !== null
+          && finding.line_start >= chunk.start_line
+          && finding.line_start <= chunk.end_line;
+
+        combined.push(
+          inChunk || finding.line_start === null
+            ? { ...finding, line_end: finding.line_end !== null ? Math.min(finding.line_end, chunk.end_line) : null }
+            : { ...finding, line_start: null, line_end: null }
+        );
+      }
+    }
+
+    // Chunk IDs collide, so renumber in file order
+    return dedupeFindings(combined)
+      .sort((a, b) => (a.line_start ?? Number.MAX_SAFE_INTEGER) - (b.line_start ?? Number.MAX_SAFE_INTEGER))
+      .map((finding, index) => ({ ...finding, id: `F${index + 1}` }));
+  }
+}
+
+// Export factory function
+export function createChunkedReviewService(
+  config: EnvConfig,
+  contextService: ContextService,
+  llmProvider: LLMProvider
+): ChunkedReviewService {
+  const chunkSize = parseInt(config.MAX_CODE_LENGTH, 10);
+  const concurrency = parseInt(config.REVIEW_CHUNK_CONCURRENCY, 10);
+  logger.info('Chunked review service initialized', { chunkSize, concurrency });
+  return new ChunkedReviewService(contextService, llmProvider, chunkSize, concurrency);
+}
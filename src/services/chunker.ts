@@ -0,0 +1,130 @@
+/**
+ * Code Chunker
+ * Splits large source files into reviewable chunks on function and class boundaries
+ */
+
+export interface CodeChunk {
+  index: number;
+  start_line: number;
+  end_line: number;
+  content: string;
+}
+
+// Top-level declarations across the languages the assistant reviews
+const TOP_LEVEL_DECLARATIONS = [
+  /^(export\s+)?(default\s+)?(abstract\s+)?(async\s+)?(function\*?|class|interface|type|enum|namespace)\s/,
+  /^(export\s+)?(const|let|var)\s+[\w$]+\s*(:[^=]+)?=\s*(async\s+)?(\(|function\b|class\b|[\w$]+\s*=>)/,
+  /^(async\s+)?def\s+\w+|^class\s+\w+/,
+  /^func\s/,
+  /^(pub(\([\w:]+\))?\s+)?(async\s+)?(fn|struct|enum|trait|impl|mod)\b/,
+  /^(public|private|protected|internal|static|final|abstract|sealed|partial)\s/,
+  /^(module|def)\s/,
+  /^(CREATE|ALTER)\s+(OR\s+REPLACE\s+)?(TABLE|VIEW|FUNCTION|PROCEDURE|TRIGGER|INDEX)\b/i,
+];
+
+// Methods and nested functions, used when a single class is larger than a chunk
+const NESTED_DECLARATIONS = [
+  /^(async\s+)?def\s+\w+/,
+  /^((public|private|protected|static|readonly|async|override|get|set)\s+)*[\w$]+\s*(<[^>]*>)?\([^)]*\)\s*(:\s*[^{]+)?\{\s*$/,
+  /^((public|private|protected|internal|static|final|virtual|override|async)\s+)+[\w<>\[\],\s]+\s+\w+\s*\(/,
+  /^(pub(\([\w:]+\))?\s+)?(async\s+)?fn\s/,
+  /^func\s/,
+];
+
+// Comments and decorators stay attached to the declaration below them
+const LEADING_TRIVIA = /^(\/\/|#|\/\*|\*|@|"""|''')/;
+
+// A boundary is only preferred once the chunk is at least this full
+const MIN_FILL_RATIO = 0.3;
+
+/**
+ * Rank how good a place a line is to start a new chunk
+ * 3: top-level declaration, 2: nested declaration, 1: after a blank line, 0: anywhere
+ */
+function rankBoundary(lines: string[], index: number): number {
+  const line = lines[index];
+  const trimmed = line.trim();
+
+  if (trimmed.length === 0) {
+    return 0;
+  }
+
+  const indented = /^\s/.test(line);
+
+  if (!indented && TOP_LEVEL_DECLARATIONS.some(pattern => pattern.test(line))) {
+    return 3;
+  }
+
+  if (indented && NESTED_DECLARATIONS.some(pattern => pattern.test(trimmed))) {
+    return 2;
+  }
+
+  if (index > 0 && lines[index - 1].trim().length === 0) {
+    return 1;
+  }
+
+  return 0;
+}
+
+/**
+ * Split code into chunks of at most maxChars characters
+ * Chunks end just before the best boundary that fits, so line numbers in each chunk
+ * map directly back to the original file
+ */
+export function splitCode(code: string, maxChars: number): CodeChunk[] {
+  const lines = code.split('\n');
+  const ranks = lines.map((_, index) => rankBoundary(lines, index));
+  const chunks: CodeChunk[] = [];
+
+  let start = 0;
+
+  while (start < lines.length) {
+    // Furthest end (exclusive) that keeps the chunk within maxChars
+    let size = 0;
+    let limit = start;
+
+    while (limit < lines.length && (limit === start || size + lines[limit].length + 1 <= maxChars)) {
+      size += lines[limit].length + 1;
+      limit++;
+    }
+
+    let end = limit;
+
+    if (limit < lines.length) {
+      const minEnd = start + Math.max(1, Math.floor((limit - start) * MIN_FILL_RATIO));
+
+      for (let rank = 3; rank >= 1; rank--) {
+        let candidate = -1;
+
+        for (let index = limit; index > minEnd; index--) {
+          if (ranks[index] >= rank) {
+            candidate = index;
+            break;
+          }
+        }
+
+        if (candidate > 0) {
+          end = candidate;
+
+          // Keep doc comments and decorators with the declaration they describe
+          while (end - 1 > minEnd && LEADING_TRIVIA.test(lines[end - 1].trim())) {
+            end--;
+          }
+
+          break;
+        }
+      }
+    }
+
+    chunks.push({
+      index: chunks.length,
+      start_line: start + 1,
+      end_line: end,
+      content: lines.slice(start, end).join('\n'),
+    });
+
+    start = end;
+  }
+
+  return chunks;
+}
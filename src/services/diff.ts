@@ -0,0 +1,295 @@
+/**
+ * Unified Diff Parsing
+ * Parses git and plain unified diffs and maps review findings back onto changed lines
+ */
+
+import type { DiffFile, DiffHunk, ReviewFinding } from '../types/index.ts';
+import { resolveFindingFile } from './findings.ts';
+import type { LocatedSecret, RedactionResult } from './secrets.ts';
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,(\d+))? \+(\d+)(?:,(\d+))? @@ ?(.*)$/;
+
+// Used when a diff has hunks but no file headers
+const UNNAMED_FILE = 'untitled';
+
+/**
+ * Strip the a/ b/ prefixes and trailing timestamps from a diff header path
+ */
+function parseHeaderPath(value: string): string | null {
+  const path = value.split('\t')[0].trim().replace(/^"(.*)"$/, '$1');
+
+  if (path === '/dev/null') {
+    return null;
+  }
+
+  return path.replace(/^[ab]\//, '');
+}
+
+function createFile(): DiffFile {
+  return { path: UNNAMED_FILE, old_path: null, status: 'modified', binary: false, hunks: [] };
+}
+
+/**
+ * Parse a unified diff, including multi-file `git diff` output
+ * Hunk line counts decide where each hunk ends, so removed lines that start with
+ * "---" are not mistaken for file headers
+ */
+export function parseUnifiedDiff(diff: string): DiffFile[] {
+  const lines = diff.replace(/\r\n?/g, '\n').split('\n');
+  const files: DiffFile[] = [];
+
+  let file: DiffFile | null = null;
+  let hunk: DiffHunk | null = null;
+  let oldRemaining = 0;
+  let newRemaining = 0;
+  let oldLine = 0;
+  let newLine = 0;
+
+  const startFile = (): DiffFile => {
+    const next = createFile();
+    files.push(next);
+    hunk = null;
+    return next;
+  };
+
+  for (const line of lines) {
+    if (hunk && (oldRemaining > 0 || newRemaining > 0)) {
+      const marker = line[0];
+      const content = line.slice(1);
+
+      if (marker === '+') {
+        hunk.lines.push({ type: 'add', content, old_line: null, new_line: newLine++ });
+        newRemaining--;
+        continue;
+      }
+
+      if (marker === '-') {
+        hunk.lines.push({ type: 'delete', content, old_line: oldLine++, new_line: null });
+        oldRemaining--;
+        continue;
+      }
+
+      // Editors and pastes often strip the single space from blank context lines
+      if (marker === ' ' || line === '') {
+        hunk.lines.push({ type: 'context', content, old_line: oldLine++, new_line: newLine++ });
+        oldRemaining--;
+        newRemaining--;
+        continue;
+      }
+
+      if (marker === '\\') {
+        // "\ No newline at end of file"
+        continue;
+      }
+
+      // Truncated hunk - fall through and treat the line as a header
+      hunk = null;
+    }
+
+    if (line.startsWith('\\')) {
+      continue;
+    }
+
+    if (line.startsWith('diff --git ')) {
+      file = startFile();
+      const match = line.match(/^diff --git "?a\/(.+?)"? "?b\/(.+?)"?$/);
+      if (match) {
+        file.path = match[2];
+        file.old_path = match[1];
+      }
+      continue;
+    }
+
+    if (line.startsWith('--- ')) {
+      // Plain unified diffs have no "diff --git" line, so "---" starts the next file
+      if (!file || file.hunks.length > 0) {
+        file = startFile();
+      }
+      const oldPath = parseHeaderPath(line.slice(4));
+      file.old_path = oldPath;
+      if (oldPath === null) {
+        file.status = 'added';
+      } else if (file.path === UNNAMED_FILE) {
+        file.path = oldPath;
+      }
+      continue;
+    }
+
+    if (line.startsWith('+++ ') && file && file.hunks.length === 0) {
+      const newPath = parseHeaderPath(line.slice(4));
+      if (newPath === null) {
+        file.status = 'deleted';
+      } else {
+        file.path = newPath;
+      }
+      continue;
+    }
+
+    const hunkMatch = line.match(HUNK_HEADER);
+    if (hunkMatch) {
+      if (!file) {
+        file = startFile();
+      }
+
+      oldLine = parseInt(hunkMatch[1], 10);
+      newLine = parseInt(hunkMatch[3], 10);
+      oldRemaining = hunkMatch[2] !== undefined ? parseInt(hunkMatch[2], 10) : 1;
+      newRemaining = hunkMatch[4] !== undefined ? parseInt(hunkMatch[4], 10) : 1;
+
+      hunk = {
+        old_start: oldLine,
+        old_lines: oldRemaining,
+        new_start: newLine,
+        new_lines: newRemaining,
+        header: hunkMatch[5].trim(),
+        lines: [],
+      };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (!file) {
+      continue;
+    }
+
+    if (line.startsWith('new file mode')) {
+      file.status = 'added';
+    } else if (line.startsWith('deleted file mode')) {
+      file.status = 'deleted';
+    } else if (line.startsWith('rename from ')) {
+      file.old_path = line.slice('rename from '.length);
+      file.status = 'renamed';
+    } else if (line.startsWith('rename to ')) {
+      file.path = line.slice('rename to '.length);
+      file.status = 'renamed';
+    } else if (line.startsWith('Binary files ') || line.startsWith('GIT binary patch')) {
+      file.binary = true;
+    }
+  }
+
+  for (const parsed of files) {
+    if (parsed.status === 'added') {
+      parsed.old_path = null;
+    } else if (parsed.status === 'modified' && parsed.old_path && parsed.old_path !== parsed.path) {
+      parsed.status = 'renamed';
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Redact secrets in every hunk line, including removed lines, without changing the hunk layout
+ * Secrets are located by new-file line, or have no line when only a removed line held them
+ */
+export function redactDiffFiles(
+  files: DiffFile[],
+  redact: (text: string) => RedactionResult
+): { files: DiffFile[]; secrets: LocatedSecret[] } {
+  const secrets: LocatedSecret[] = [];
+
+  const redactedFiles = files.map(file => {
+    const lines = file.hunks.flatMap(hunk => hunk.lines);
+    const result = redact(lines.map(line => line.content).join('\n'));
+
+    if (result.secrets.length === 0) {
+      return file;
+    }
+
+    const contents = result.text.split('\n');
+    let index = 0;
+
+    const hunks = file.hunks.map(hunk => ({
+      ...hunk,
+      lines: hunk.lines.map(line => ({ ...line, content: contents[index++] })),
+    }));
+
+    for (const secret of result.secrets) {
+      secrets.push({
+        description: secret.description,
+        placeholder: secret.placeholder,
+        line: lines[secret.line - 1]?.new_line ?? null,
+        file: file.path,
+      });
+    }
+
+    return { ...file, hunks };
+  });
+
+  return { files: redactedFiles, secrets };
+}
+
+/**
+ * Files that have added lines to review
+ */
+export function getReviewableFiles(files: DiffFile[]): DiffFile[] {
+  return files.filter(
+    file => !file.binary && file.hunks.some(hunk => hunk.lines.some(line => line.type === 'add'))
+  );
+}
+
+/**
+ * New-file line numbers added by the diff, per file path
+ */
+export function getAddedLines(files: DiffFile[]): Map<string, Set<number>> {
+  const added = new Map<string, Set<number>>();
+
+  for (const file of files) {
+    const lines = added.get(file.path) || new Set<number>();
+
+    for (const hunk of file.hunks) {
+      for (const line of hunk.lines) {
+        if (line.type === 'add' && line.new_line !== null) {
+          lines.add(line.new_line);
+        }
+      }
+    }
+
+    added.set(file.path, lines);
+  }
+
+  return added;
+}
+
+/**
+ * Attach file paths to findings and keep only those that touch added lines
+ * Findings without a location are kept, since they describe the change as a whole
+ */
+export function mapFindingsToDiff(
+  findings: ReviewFinding[],
+  files: DiffFile[]
+): { findings: ReviewFinding[]; discarded: number } {
+  const addedLines = getAddedLines(files);
+  const paths = Array.from(addedLines.keys());
+  const mapped: ReviewFinding[] = [];
+
+  for (const finding of findings) {
+    const path = resolveFindingFile(finding.file, paths);
+
+    if (finding.line_start === null) {
+      mapped.push({ ...finding, file: path || undefined });
+      continue;
+    }
+
+    if (!path) {
+      continue;
+    }
+
+    const lineEnd = finding.line_end ?? finding.line_start;
+    const added = addedLines.get(path)!;
+    let touchesChange = false;
+
+    for (let line = finding.line_start; line <= lineEnd; line++) {
+      if (added.has(line)) {
+        touchesChange = true;
+        break;
+      }
+    }
+
+    if (touchesChange) {
+      mapped.push({ ...finding, file: path });
+    }
+  }
+
+  return { findings: mapped, discarded: findings.length - mapped.length };
+}
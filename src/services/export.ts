@@ -0,0 +1,211 @@
+/**
+ * Session Export
+ * Renders a session as a Markdown transcript, a JSON dump, or SARIF 2.1.0 findings
+ * for code scanning and IDE import
+ */
+
+import type { ChatMessage, ChatSession, FindingCategory, ReviewFinding, ReviewedCode, Severity } from '../types/index.ts';
+import { ExportError } from '../utils/errors.ts';
+import { FINDING_CATEGORIES } from './findings.ts';
+import { SNIPPET_PATH } from './patch.ts';
+
+export const EXPORT_FORMATS = ['md', 'json', 'sarif'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export interface SessionExport {
+  body: string;
+  contentType: string;
+  extension: string;
+}
+
+const TOOL_NAME = 'ai-code-review-assistant';
+const TOOL_VERSION = '1.0.0';
+const SARIF_SCHEMA = 'https://json.schemastore.org/sarif-2.1.0.json';
+
+const SARIF_LEVELS: Record<Severity, 'error' | 'warning' | 'note'> = {
+  critical: 'error',
+  warning: 'warning',
+  info: 'note',
+};
+
+// SARIF rules, one per finding category
+const CATEGORY_RULES: Record<FindingCategory, { name: string; description: string }> = {
+  security: { name: 'SecurityIssue', description: 'Security issue' },
+  bug: { name: 'Bug', description: 'Bug' },
+  performance: { name: 'PerformanceIssue', description: 'Performance issue' },
+  quality: { name: 'CodeQualityIssue', description: 'Code quality issue' },
+  'best-practice': { name: 'BestPractice', description: 'Best practice' },
+};
+
+/**
+ * Export a session in the given format
+ * The owner is never exported: for anonymous owners it is the cookie that proves ownership
+ */
+export function exportSession(session: ChatSession, format: ExportFormat): SessionExport {
+  switch (format) {
+    case 'md':
+      return { body: renderMarkdown(session), contentType: 'text/markdown; charset=utf-8', extension: 'md' };
+    case 'json':
+      return { body: renderJson(session), contentType: 'application/json', extension: 'json' };
+    case 'sarif':
+      return { body: renderSarif(session), contentType: 'application/sarif+json', extension: 'sarif' };
+  }
+}
+
+/**
+ * Heading for a message: who wrote it and, for the assistant, how it handled the turn
+ */
+function messageHeading(message: ChatMessage): string {
+  if (message.role === 'user') {
+    return message.action ? `You · ${message.action}` : 'You';
+  }
+
+  const detail = message.action || message.mode;
+  return detail ? `Assistant · ${detail}` : 'Assistant';
+}
+
+/**
+ * Readable transcript of the conversation
+ */
+function renderMarkdown(session: ChatSession): string {
+  const sections = [
+    `# ${session.title || 'Code review session'}`,
+    [
+      `- Session: \`${session.id}\``,
+      `- Created: ${session.created_at}`,
+      `- Updated: ${session.updated_at}`,
+      `- Messages: ${session.messages.length}`,
+    ].join('\n'),
+  ];
+
+  for (const message of session.messages) {
+    if (message.role === 'system') continue;
+
+    sections.push(`---\n\n## ${messageHeading(message)}\n\n${message.content.trim()}`);
+  }
+
+  return `${sections.join('\n\n')}\n`;
+}
+
+/**
+ * Every message and the session metadata, without the owner
+ */
+function renderJson(session: ChatSession): string {
+  const { owner: _owner, ...exported } = session;
+
+  return JSON.stringify(
+    {
+      format: 'ai-code-review-session',
+      exported_at: new Date().toISOString(),
+      session: { ...exported, title: session.title || null, message_count: session.messages.length },
+    },
+    null,
+    2
+  );
+}
+
+/**
+ * Reviewed sources by path, for result snippets
+ * Diff reviews keep the diff text, whose lines are not the file's lines
+ */
+function reviewedSources(reviewed: ReviewedCode): Record<string, string> {
+  const sources: Record<string, string> = {};
+
+  if (reviewed.files) {
+    for (const file of reviewed.files) sources[file.path] = file.content;
+  } else if (reviewed.code !== undefined && reviewed.input_type === 'code') {
+    sources[SNIPPET_PATH] = reviewed.code;
+  }
+
+  return sources;
+}
+
+/**
+ * SARIF result for one finding
+ */
+function sarifResult(finding: ReviewFinding, sources: Record<string, string>): Record<string, unknown> {
+  const path = finding.file || SNIPPET_PATH;
+  // Code scanning needs a line; findings without one point at the start of the file
+  const startLine = finding.line_start ?? 1;
+  const endLine = Math.max(startLine, finding.line_end ?? startLine);
+  const region: Record<string, unknown> = { startLine, endLine };
+
+  const source = sources[path];
+  if (source !== undefined && finding.line_start !== null) {
+    region.snippet = { text: source.split('\n').slice(startLine - 1, endLine).join('\n') };
+  }
+
+  let text = finding.message;
+  if (finding.suggested_fix) {
+    text += `\n\nSuggested fix: ${finding.suggested_fix}`;
+  }
+
+  return {
+    ruleId: finding.category,
+    ruleIndex: FINDING_CATEGORIES.indexOf(finding.category),
+    level: SARIF_LEVELS[finding.severity],
+    message: { text },
+    locations: [
+      {
+        physicalLocation: {
+          artifactLocation: { uri: encodeURI(path) },
+          region,
+        },
+      },
+    ],
+    properties: {
+      finding_id: finding.id,
+      severity: finding.severity,
+      ...(finding.line_start === null ? { line_unknown: true } : {}),
+      ...(finding.suggested_fix ? { suggested_fix: finding.suggested_fix } : {}),
+    },
+  };
+}
+
+/**
+ * SARIF 2.1.0 log with one run holding the latest review's findings
+ * Rules are the finding categories, so results group the same way as in the chat
+ * Free-text reviews only carry the secret and injection pre-checks, so they are refused
+ * rather than exported as a misleadingly short run
+ */
+function renderSarif(session: ChatSession): string {
+  const reviewed = session.last_review;
+
+  if (!reviewed?.structured) {
+    throw new ExportError('SARIF export needs a structured review; run one with structured findings first', {
+      sessionId: session.id,
+      reviewed: reviewed !== undefined,
+    });
+  }
+
+  const findings = reviewed.findings;
+  const sources = reviewedSources(reviewed);
+
+  const log = {
+    $schema: SARIF_SCHEMA,
+    version: '2.1.0',
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: TOOL_NAME,
+            version: TOOL_VERSION,
+            rules: FINDING_CATEGORIES.map(category => ({
+              id: category,
+              name: CATEGORY_RULES[category].name,
+              shortDescription: { text: CATEGORY_RULES[category].description },
+              properties: { tags: [category] },
+            })),
+          },
+        },
+        results: findings.map(finding => sarifResult(finding, sources)),
+        properties: {
+          session_id: session.id,
+          reviewed_at: reviewed.reviewed_at,
+        },
+      },
+    ],
+  };
+
+  return JSON.stringify(log, null, 2);
+}
@@ -0,0 +1,159 @@
+/**
+ * Fallback LLM Provider
+ * Walks an ordered chain of provider/model pairs on quota or availability errors
+ */
+
+import type {
+  ChatMessage,
+  CompletionOptions,
+  DeltaHandler,
+  LLMCompletion,
+  LLMProvider,
+} from '../types/index.ts';
+import { CircuitOpenError } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { getModelInfo } from '../config/models.ts';
+import { BaseLLMProvider } from './provider.ts';
+import { isTransientError } from './resilience.ts';
+
+export interface FallbackTarget {
+  provider: LLMProvider;
+  model: string;
+}
+
+// Provider instance for a provider name, for requested models outside the chain
+export type ProviderResolver = (name: string) => LLMProvider;
+
+/**
+ * Check whether an error should move the request to the next model
+ */
+export function shouldFallback(error: unknown): boolean {
+  return error instanceof CircuitOpenError || isTransientError(error);
+}
+
+export class FallbackLLMProvider extends BaseLLMProvider {
+  readonly name: string;
+  private chain: FallbackTarget[];
+  private resolveProvider: ProviderResolver;
+
+  constructor(chain: FallbackTarget[], resolveProvider: ProviderResolver) {
+    super(chain[0].model);
+    this.name = chain[0].provider.name;
+    this.chain = chain;
+    this.resolveProvider = resolveProvider;
+  }
+
+  /**
+   * Send chat completion request, falling back along the chain
+   */
+  async chatCompletion(
+    messages: ChatMessage[],
+    options?: CompletionOptions
+  ): Promise<LLMCompletion> {
+    return this.execute(options, (target, retryRateLimits) =>
+      target.provider.chatCompletion(messages, { ...options, model: target.model, retryRateLimits })
+    );
+  }
+
+  /**
+   * Send streaming chat completion request, falling back along the chain
+   * Only falls back while nothing has been streamed to the client yet
+   */
+  async chatCompletionStream(
+    messages: ChatMessage[],
+    onDelta: DeltaHandler,
+    options?: CompletionOptions
+  ): Promise<LLMCompletion> {
+    let streamed = false;
+
+    return this.execute(
+      options,
+      (target, retryRateLimits) =>
+        target.provider.chatCompletionStream(
+          messages,
+          async (delta) => {
+            streamed = true;
+            await onDelta(delta);
+          },
+          { ...options, model: target.model, retryRateLimits }
+        ),
+      () => !streamed
+    );
+  }
+
+  /**
+   * Try each target in order until one succeeds
+   * Every target but the last fails over on a rate limit instead of waiting it out
+   */
+  private async execute(
+    options: CompletionOptions | undefined,
+    call: (target: FallbackTarget, retryRateLimits: boolean) => Promise<LLMCompletion>,
+    canFallback: () => boolean = () => true
+  ): Promise<LLMCompletion> {
+    const targets = this.resolveChain(options?.model);
+    let lastError: unknown;
+
+    for (let i = 0; i < targets.length; i++) {
+      const target = targets[i];
+
+      try {
+        const completion = await call(target, i === targets.length - 1);
+
+        if (i > 0) {
+          logger.warn('AI request served by fallback model', {
+            provider: completion.provider,
+            model: completion.model,
+            attempts: i + 1,
+          });
+        }
+
+        return completion;
+      } catch (error) {
+        lastError = error;
+
+        if (!canFallback() || !shouldFallback(error) || i === targets.length - 1) {
+          throw error;
+        }
+
+        logger.warn('AI model unavailable, falling back', {
+          provider: target.provider.name,
+          model: target.model,
+          next: `${targets[i + 1].provider.name}:${targets[i + 1].model}`,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    throw lastError;
+  }
+
+  /**
+   * Order the chain so a requested model is tried first
+   * A model outside the chain goes to its catalog provider, or the primary one when unknown
+   */
+  private resolveChain(model?: string): FallbackTarget[] {
+    if (!model) {
+      return this.chain;
+    }
+
+    const index = this.chain.findIndex(target => target.model === model);
+
+    if (index >= 0) {
+      return this.chain.slice(index);
+    }
+
+    const { provider } = getModelInfo(model, this.chain[0].provider.name);
+    return [{ provider: this.resolveProvider(provider), model }, ...this.chain];
+  }
+}
+
+// Export factory function
+export function createFallbackLLMProvider(
+  chain: FallbackTarget[],
+  resolveProvider: ProviderResolver
+): FallbackLLMProvider {
+  logger.info('Fallback chain initialized', {
+    chain: chain.map(target => `${target.provider.name}:${target.model}`),
+  });
+  return new FallbackLLMProvider(chain, resolveProvider);
+}
@@ -0,0 +1,394 @@
+/**
+ * Structured Review Findings
+ * Parses, validates and renders JSON findings returned by the model
+ */
+
+import type { FindingCategory, ReviewFile, ReviewFinding, Severity } from '../types/index.ts';
+
+export const FINDING_CATEGORIES: FindingCategory[] = [
+  'security',
+  'bug',
+  'performance',
+  'quality',
+  'best-practice',
+];
+
+export const SEVERITIES: Severity[] = ['info', 'warning', 'critical'];
+
+// Common model spellings mapped onto the canonical categories
+const CATEGORY_ALIASES: Record<string, FindingCategory> = {
+  vulnerability: 'security',
+  bugs: 'bug',
+  correctness: 'bug',
+  logic: 'bug',
+  perf: 'performance',
+  'code-quality': 'quality',
+  readability: 'quality',
+  maintainability: 'quality',
+  style: 'quality',
+  'best-practices': 'best-practice',
+  'best_practice': 'best-practice',
+  practice: 'best-practice',
+};
+
+const SEVERITY_ALIASES: Record<string, Severity> = {
+  low: 'info',
+  minor: 'info',
+  medium: 'warning',
+  moderate: 'warning',
+  major: 'warning',
+  high: 'critical',
+  error: 'critical',
+  blocker: 'critical',
+};
+
+export interface StructuredReview {
+  summary: string;
+  findings: ReviewFinding[];
+}
+
+export type StructuredReviewParseResult =
+  | { ok: true; review: StructuredReview }
+  | { ok: false; error: string };
+
+/**
+ * Pull the JSON object out of a model response that may be wrapped in prose or fences
+ */
+function extractJson(raw: string): string | null {
+  const fenced = raw.match(/```(?:json)?\s*\n([\s\S]*?)```/);
+  const text = fenced ? fenced[1] : raw;
+
+  const start = text.indexOf('{');
+  const end = text.lastIndexOf('}');
+
+  if (start < 0 || end <= start) {
+    return null;
+  }
+
+  return text.slice(start, end + 1);
+}
+
+function normalizeCategory(value: unknown): FindingCategory | null {
+  if (typeof value !== 'string') return null;
+
+  const key = value.trim().toLowerCase().replace(/\s+/g, '-');
+
+  if ((FINDING_CATEGORIES as string[]).includes(key)) {
+    return key as FindingCategory;
+  }
+
+  return CATEGORY_ALIASES[key] || null;
+}
+
+function normalizeSeverity(value: unknown): Severity | null {
+  if (typeof value !== 'string') return null;
+
+  const key = value.trim().toLowerCase();
+
+  if ((SEVERITIES as string[]).includes(key)) {
+    return key as Severity;
+  }
+
+  return SEVERITY_ALIASES[key] || null;
+}
+
+function normalizeLine(value: unknown): number | null {
+  if (value === null || value === undefined || value === '') return null;
+
+  const line = typeof value === 'string' ? parseInt(value, 10) : value;
+
+  if (typeof line !== 'number' || !Number.isInteger(line) || line < 1) {
+    return null;
+  }
+
+  return line;
+}
+
+/**
+ * Validate a single finding, returning an error message when it is unusable
+ */
+function validateFinding(value: unknown, index: number): ReviewFinding | string {
+  if (!value || typeof value !== 'object') {
+    return `findings[${index}] must be an object`;
+  }
+
+  const item = value as Record<string, unknown>;
+
+  if (typeof item.message !== 'string' || item.message.trim().length === 0) {
+    return `findings[${index}].message must be a non-empty string`;
+  }
+
+  const category = normalizeCategory(item.category);
+  if (!category) {
+    return `findings[${index}].category must be one of: ${FINDING_CATEGORIES.join(', ')}`;
+  }
+
+  const severity = normalizeSeverity(item.severity);
+  if (!severity) {
+    return `findings[${index}].severity must be one of: ${SEVERITIES.join(', ')}`;
+  }
+
+  const lineStart = normalizeLine(item.line_start);
+  let lineEnd = normalizeLine(item.line_end);
+
+  if (lineStart !== null && (lineEnd === null || lineEnd < lineStart)) {
+    lineEnd = lineStart;
+  }
+
+  const suggestedFix = typeof item.suggested_fix === 'string' && item.suggested_fix.trim()
+    ? item.suggested_fix.trim()
+    : null;
+
+  const finding: ReviewFinding = {
+    id: typeof item.id === 'string' && item.id.trim() ? item.id.trim() : `F${index + 1}`,
+    category,
+    severity,
+    line_start: lineStart,
+    line_end: lineStart === null ? null : lineEnd,
+    message: item.message.trim(),
+    suggested_fix: suggestedFix,
+  };
+
+  // Diff reviews report which file each finding belongs to
+  if (typeof item.file === 'string' && item.file.trim()) {
+    finding.file = item.file.trim();
+  }
+
+  return finding;
+}
+
+/**
+ * Parse and validate a structured review from raw model output
+ */
+export function parseStructuredReview(raw: string): StructuredReviewParseResult {
+  const json = extractJson(raw);
+
+  if (!json) {
+    return { ok: false, error: 'Response does not contain a JSON object' };
+  }
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    return { ok: false, error: `Invalid JSON: ${(error as Error).message}` };
+  }
+
+  const root = data as Record<string, unknown>;
+
+  if (!Array.isArray(root.findings)) {
+    return { ok: false, error: 'Top-level "findings" must be an array' };
+  }
+
+  const findings: ReviewFinding[] = [];
+  for (let i = 0; i < root.findings.length; i++) {
+    const result = validateFinding(root.findings[i], i);
+
+    if (typeof result === 'string') {
+      return { ok: false, error: result };
+    }
+
+    findings.push(result);
+  }
+
+  // Keep IDs unique even when the model repeats them
+  const seen = new Set<string>();
+  for (const finding of findings) {
+    while (seen.has(finding.id)) {
+      finding.id = `${finding.id}-${seen.size + 1}`;
+    }
+    seen.add(finding.id);
+  }
+
+  return {
+    ok: true,
+    review: {
+      summary: typeof root.summary === 'string' ? root.summary.trim() : '',
+      findings,
+    },
+  };
+}
+
+/**
+ * Resolve a path reported by the model to one of the submitted files
+ * Accepts a/ b/ prefixes and unambiguous suffixes like "utils.ts" for "src/utils.ts"
+ */
+export function resolveFindingFile(reported: string | undefined, paths: string[]): string | null {
+  if (paths.length === 1 && !reported) {
+    return paths[0];
+  }
+
+  if (!reported) {
+    return null;
+  }
+
+  const normalized = reported.trim().replace(/^[ab]\//, '').replace(/^\.\//, '');
+
+  if (paths.includes(normalized)) {
+    return normalized;
+  }
+
+  const suffixMatches = paths.filter(
+    path => path.endsWith(`/${normalized}`) || normalized.endsWith(`/${path}`)
+  );
+
+  return suffixMatches.length === 1 ? suffixMatches[0] : null;
+}
+
+/**
+ * Attach file paths to findings from a multi-file review
+ * Line ranges that fall outside the file are cleared rather than trusted
+ */
+export function mapFindingsToFiles(findings: ReviewFinding[], files: ReviewFile[]): ReviewFinding[] {
+  const lineCounts = new Map(files.map(file => [file.path, file.content.split('\n').length]));
+  const paths = files.map(file => file.path);
+
+  return findings.map(finding => {
+    const path = resolveFindingFile(finding.file, paths);
+
+    if (!path) {
+      return { ...finding, file: undefined, line_start: null, line_end: null };
+    }
+
+    const lineCount = lineCounts.get(path)!;
+
+    if (finding.line_start !== null && finding.line_start > lineCount) {
+      return { ...finding, file: path, line_start: null, line_end: null };
+    }
+
+    if (finding.line_end !== null && finding.line_end > lineCount) {
+      return { ...finding, file: path, line_end: lineCount };
+    }
+
+    return { ...finding, file: path };
+  });
+}
+
+// Findings whose messages share at least this share of words describe the same issue
+const DUPLICATE_SIMILARITY = 0.5;
+
+// Line ranges this close together count as the same location
+const DUPLICATE_LINE_DISTANCE = 2;
+
+function messageWords(message: string): Set<string> {
+  return new Set(
+    message.toLowerCase().split(/[^a-z0-9_]+/).filter(word => word.length > 2)
+  );
+}
+
+function similarity(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 || b.size === 0) return 0;
+
+  let shared = 0;
+  for (const word of a) {
+    if (b.has(word)) shared++;
+  }
+
+  return shared / (a.size + b.size - shared);
+}
+
+function sameLocation(a: ReviewFinding, b: ReviewFinding): boolean {
+  if ((a.file || null) !== (b.file || null)) return false;
+  if (a.line_start === null || b.line_start === null) return a.line_start === b.line_start;
+
+  const aEnd = a.line_end ?? a.line_start;
+  const bEnd = b.line_end ?? b.line_start;
+
+  return a.line_start <= bEnd + DUPLICATE_LINE_DISTANCE && b.line_start <= aEnd + DUPLICATE_LINE_DISTANCE;
+}
+
+/**
+ * Merge findings that report the same issue at the same place, keeping the most severe copy
+ */
+export function dedupeFindings(findings: ReviewFinding[]): ReviewFinding[] {
+  const kept: { finding: ReviewFinding; words: Set<string> }[] = [];
+
+  for (const finding of findings) {
+    const words = messageWords(finding.message);
+    const duplicate = kept.find(entry =>
+      entry.finding.category === finding.category &&
+      sameLocation(entry.finding, finding) &&
+      similarity(entry.words, words) >= DUPLICATE_SIMILARITY
+    );
+
+    if (!duplicate) {
+      kept.push({ finding, words });
+      continue;
+    }
+
+    if (SEVERITIES.indexOf(finding.severity) > SEVERITIES.indexOf(duplicate.finding.severity)) {
+      duplicate.finding = { ...finding, id: duplicate.finding.id };
+      duplicate.words = words;
+    }
+  }
+
+  return kept.map(entry => entry.finding);
+}
+
+/**
+ * Highest severity among findings
+ */
+export function overallSeverity(findings: ReviewFinding[]): Severity {
+  if (findings.some(finding => finding.severity === 'critical')) return 'critical';
+  if (findings.some(finding => finding.severity === 'warning')) return 'warning';
+  return 'info';
+}
+
+/**
+ * Suggested fixes as a flat list, prefixed with the finding they belong to
+ */
+export function findingSuggestions(findings: ReviewFinding[]): string[] {
+  return findings
+    .filter(finding => finding.suggested_fix)
+    .map(finding => `${finding.id}: ${finding.suggested_fix}`);
+}
+
+/**
+ * Format a finding's line range for display
+ */
+export function formatLineRange(finding: ReviewFinding): string {
+  if (finding.line_start === null) return '';
+  if (finding.line_end === null || finding.line_end === finding.line_start) {
+    return `line ${finding.line_start}`;
+  }
+  return `lines ${finding.line_start}-${finding.line_end}`;
+}
+
+/**
+ * Render a structured review as markdown in the same layout as free-text reviews
+ */
+export function renderFindingsMarkdown(review: StructuredReview): string {
+  const severity = overallSeverity(review.findings);
+  const sections: string[] = [`**Severity**: ${severity.toUpperCase()}`];
+
+  if (review.summary) {
+    sections.push(`**Summary**: ${review.summary}`);
+  }
+
+  if (review.findings.length === 0) {
+    sections.push('**Issues Found**:\n- No issues found');
+    return sections.join('\n\n');
+  }
+
+  // Most severe first
+  const ordered = [...review.findings].sort(
+    (a, b) => SEVERITIES.indexOf(b.severity) - SEVERITIES.indexOf(a.severity)
+  );
+
+  const items = ordered.map(finding => {
+    const location = [finding.category, finding.file, formatLineRange(finding)].filter(Boolean).join(', ');
+    let item = `- **[${finding.severity.toUpperCase()}] ${finding.id}** (${location}): ${finding.message}`;
+
+    if (finding.suggested_fix) {
+      item += finding.suggested_fix.includes('\n')
+        ? `\n\n  Suggested fix:\n\n  \`\`\`\n${finding.suggested_fix.split('\n').map(line => `  ${line}`).join('\n')}\n  \`\`\``
+        : `\n  - Suggested fix: ${finding.suggested_fix}`;
+    }
+
+    return item;
+  });
+
+  sections.push(`**Issues Found**:\n${items.join('\n')}`);
+
+  return sections.join('\n\n');
+}
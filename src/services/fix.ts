@@ -0,0 +1,102 @@
+/**
+ * Fix Patch Requests
+ * Asks the model for a unified diff and retries with the reason when it does not apply
+ */
+
+import type { ChatMessage, LLMCompletion, LLMProvider, ModelInfo } from '../types/index.ts';
+import { logger } from '../utils/logger.ts';
+import type { ContextService } from './context.ts';
+import { buildHistory } from './history.ts';
+import { applyPatch, extractPatch } from './patch.ts';
+import type { PatchResult } from './patch.ts';
+
+// Follow-up requests asking the model to correct a patch that did not apply
+const MAX_PATCH_RETRIES = 2;
+
+export interface PatchRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  history: ChatMessage[];
+  modelInfo: ModelInfo;
+  model?: string;
+  sources: Record<string, string>;
+}
+
+export interface PatchOutcome {
+  completion: LLMCompletion;
+  result: PatchResult;
+  attempts: number;
+}
+
+/**
+ * Check a response's patch against the sources
+ */
+function checkPatch(sources: Record<string, string>, response: string): PatchResult {
+  const patch = extractPatch(response);
+
+  if (!patch) {
+    return { ok: false, error: 'The response does not contain a unified diff' };
+  }
+
+  return applyPatch(sources, patch);
+}
+
+/**
+ * Request a patch and retry with the failure reason until it applies cleanly
+ * Returns the last failure when the patch still does not apply after all retries
+ */
+export async function requestPatch(
+  llmProvider: LLMProvider,
+  contextService: ContextService,
+  request: PatchRequest
+): Promise<PatchOutcome> {
+  const { systemPrompt, userPrompt, history, modelInfo, model, sources } = request;
+
+  const budget = buildHistory({
+    systemPrompt,
+    history,
+    userPrompt,
+    model: modelInfo,
+  });
+
+  let completion = await llmProvider.reviewCode(
+    systemPrompt,
+    userPrompt,
+    budget.messages,
+    { model, maxTokens: budget.maxTokens }
+  );
+
+  let result = checkPatch(sources, completion.content);
+  let attempts = 1;
+
+  while (!result.ok && attempts <= MAX_PATCH_RETRIES) {
+    logger.warn('Fix patch does not apply, requesting a corrected patch', {
+      attempt: attempts,
+      error: result.error,
+    });
+
+    const retryPrompt = contextService.buildPatchRepairPrompt(result.error);
+    const retryBudget = buildHistory({
+      systemPrompt,
+      history: [
+        ...history,
+        { role: 'user', content: userPrompt },
+        { role: 'assistant', content: completion.content },
+      ],
+      userPrompt: retryPrompt,
+      model: modelInfo,
+    });
+
+    completion = await llmProvider.reviewCode(
+      systemPrompt,
+      retryPrompt,
+      retryBudget.messages,
+      { model: completion.model, maxTokens: retryBudget.maxTokens }
+    );
+
+    result = checkPatch(sources, completion.content);
+    attempts++;
+  }
+
+  return { completion, result, attempts };
+}
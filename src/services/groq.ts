@@ -4,19 +4,25 @@
  */
 
 import Groq from 'groq-sdk';
-import type { ChatMessage, EnvConfig } from '../types/index.ts';
-import { AIServiceError } from '../utils/errors.ts';
+import type { ChatMessage, CompletionOptions, DeltaHandler, EnvConfig, LLMCompletion } from '../types/index.ts';
+import { AIServiceError, parseRetryAfter } from '../utils/errors.ts';
 import { logger } from '../utils/logger.ts';
+import { BaseLLMProvider } from './provider.ts';
 
-export class GroqService {
+// Using Groq's free tier - fast and reliable
+// Available models: llama-3.1-8b-instant, mixtral-8x7b-32768, llama-3.3-70b-versatile
+export const GROQ_DEFAULT_MODEL = 'llama-3.3-70b-versatile';
+
+export class GroqService extends BaseLLMProvider {
+  readonly name = 'groq';
   private client: Groq;
-  // Using Groq's free tier - fast and reliable
-  // Available models: llama-3.1-8b-instant, mixtral-8x7b-32768, llama-3.3-70b-versatile
-  private model: string = 'llama-3.3-70b-versatile';
 
   constructor(config: EnvConfig) {
+    super(config.LLM_MODEL || GROQ_DEFAULT_MODEL);
     this.client = new Groq({
       apiKey: config.GROQ_API_KEY,
+      // Retries and timeouts are handled by ResilientLLMProvider
+      maxRetries: 0,
     });
   }
 
@@ -25,19 +31,16 @@ export class GroqService {
    */
   async chatCompletion(
     messages: ChatMessage[],
-    options?: {
-      maxTokens?: number;
-      temperature?: number;
-      topP?: number;
-    }
-  ): Promise<string> {
+    options?: CompletionOptions
+  ): Promise<LLMCompletion> {
     const startTime = Date.now();
+    const model = options?.model || this.model;
 
     try {
       logger.logAIRequest('code-review', JSON.stringify(messages).length);
 
       logger.info('Sending request to Groq API', {
-        model: this.model,
+        model,
         messageCount: messages.length,
         maxTokens: options?.maxTokens || 1000,
       });
@@ -47,11 +50,12 @@ export class GroqService {
           role: msg.role,
           content: msg.content,
         })),
-        model: this.model,
+        model,
         max_tokens: options?.maxTokens || 1000,
         temperature: options?.temperature || 0.3,
         top_p: options?.topP || 0.9,
-      });
+        ...(options?.jsonMode && { response_format: { type: 'json_object' as const } }),
+      }, { signal: options?.signal });
 
       logger.info('Received response from Groq API', {
         hasChoices: !!chatCompletion.choices,
@@ -78,7 +82,7 @@ export class GroqService {
       const duration = Date.now() - startTime;
       logger.logAIResponse('code-review', content.length, duration);
 
-      return content;
+      return { content, model, provider: this.name };
     } catch (error) {
       logger.error('Groq request failed', error);
 
@@ -86,80 +90,98 @@ export class GroqService {
         throw error;
       }
 
-      throw new AIServiceError(
-        (error as Error).message || 'Unknown error occurred',
-        { originalError: (error as Error).message }
-      );
+      throw this.toServiceError(error);
     }
   }
 
   /**
-   * Review code using AI
+   * Send streaming chat completion request to Groq
    */
-  async reviewCode(
-    code: string,
-    systemPrompt: string,
-    userPrompt: string,
-    previousMessages: ChatMessage[] = []
-  ): Promise<string> {
-    const messages: ChatMessage[] = [
-      { role: 'system', content: systemPrompt },
-      ...previousMessages,
-      { role: 'user', content: userPrompt },
-    ];
-
-    return await this.chatCompletion(messages, {
-      maxTokens: 1500,
-      temperature: 0.3,
-      topP: 0.9,
-    });
-  }
+  async chatCompletionStream(
+    messages: ChatMessage[],
+    onDelta: DeltaHandler,
+    options?: CompletionOptions
+  ): Promise<LLMCompletion> {
+    const startTime = Date.now();
+    const model = options?.model || this.model;
 
-  /**
-   * Sanitize AI response to prevent XSS
-   */
-  sanitizeResponse(response: string): string {
-    return response
-      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
-      .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '')
-      .replace(/on\w+="[^"]*"/gi, '')
-      .trim();
-  }
+    try {
+      logger.logAIRequest('code-review-stream', JSON.stringify(messages).length);
 
-  /**
-   * Format review for display
-   */
-  formatReview(review: string): string {
-    // Convert markdown-style code blocks to HTML-safe format
-    const formatted = review
-      .replace(/```(\w+)?\n([\s\S]*?)```/g, (_, lang, code) => {
-        return `<pre><code class="language-${lang || 'text'}">${this.escapeHtml(code.trim())}</code></pre>`;
-      })
-      .replace(/`([^`]+)`/g, '<code>$1</code>')
-      .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*([^*]+)\*/g, '<em>$1</em>');
-
-    return this.sanitizeResponse(formatted);
+      logger.info('Sending streaming request to Groq API', {
+        model,
+        messageCount: messages.length,
+        maxTokens: options?.maxTokens || 1000,
+      });
+
+      const stream = await this.client.chat.completions.create({
+        messages: messages.map(msg => ({
+          role: msg.role,
+          content: msg.content,
+        })),
+        model,
+        max_tokens: options?.maxTokens || 1000,
+        temperature: options?.temperature || 0.3,
+        top_p: options?.topP || 0.9,
+        stream: true,
+      }, { signal: options?.signal });
+
+      let content = '';
+
+      for await (const chunk of stream) {
+        const delta = chunk.choices[0]?.delta?.content;
+
+        if (delta) {
+          content += delta;
+          await onDelta(delta);
+        }
+      }
+
+      if (!content) {
+        logger.error('Empty content in stream');
+        throw new AIServiceError('Empty response from model');
+      }
+
+      const duration = Date.now() - startTime;
+      logger.logAIResponse('code-review-stream', content.length, duration);
+
+      return { content, model, provider: this.name };
+    } catch (error) {
+      logger.error('Groq streaming request failed', error);
+
+      if (error instanceof AIServiceError) {
+        throw error;
+      }
+
+      throw this.toServiceError(error);
+    }
   }
 
   /**
-   * Escape HTML to prevent XSS
+   * Convert a Groq SDK error into an AIServiceError with status and Retry-After
    */
-  private escapeHtml(text: string): string {
-    const map: { [key: string]: string } = {
-      '&': '&amp;',
-      '<': '&lt;',
-      '>': '&gt;',
-      '"': '&quot;',
-      "'": '&#039;',
+  private toServiceError(error: unknown): AIServiceError {
+    const details: Record<string, unknown> = {
+      originalError: (error as Error).message,
     };
 
-    return text.replace(/[&<>"']/g, char => map[char]);
+    if (error instanceof Groq.APIConnectionError) {
+      details.network = true;
+    } else if (error instanceof Groq.APIError) {
+      details.status = error.status;
+      details.retryAfterMs = parseRetryAfter(error.headers?.['retry-after']);
+    }
+
+    return new AIServiceError(
+      (error as Error).message || 'Unknown error occurred',
+      details
+    );
   }
 }
 
 // Export factory function
 export function createGroqService(config: EnvConfig): GroqService {
-  logger.info('Groq service initialized', { model: 'llama-3.3-70b-versatile' });
-  return new GroqService(config);
+  const service = new GroqService(config);
+  logger.info('Groq service initialized', { model: service.model });
+  return service;
 }
@@ -0,0 +1,63 @@
+/**
+ * File Guideline Store
+ * Keeps project guidelines as JSON files on disk for the Bun dev server
+ * Not imported by the Workers entry point, which has no file system
+ */
+
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import type { ProjectGuidelines } from '../types/index.ts';
+import { safeJsonParse } from '../utils/errors.ts';
+import type { GuidelineStore } from './guidelines.ts';
+
+export class FileGuidelineStore implements GuidelineStore {
+  readonly name = 'file';
+  private dir: string;
+
+  constructor(dir: string) {
+    this.dir = dir;
+  }
+
+  async get(projectId: string): Promise<ProjectGuidelines | null> {
+    try {
+      const data = await readFile(this.path(projectId), 'utf8');
+      return safeJsonParse<ProjectGuidelines | null>(data, null);
+    } catch {
+      return null;
+    }
+  }
+
+  async put(document: ProjectGuidelines): Promise<void> {
+    await mkdir(this.dir, { recursive: true });
+    await writeFile(this.path(document.project_id), JSON.stringify(document, null, 2), 'utf8');
+  }
+
+  async delete(projectId: string): Promise<boolean> {
+    const existing = await this.get(projectId);
+    await rm(this.path(projectId), { force: true });
+    return existing !== null;
+  }
+
+  async list(): Promise<ProjectGuidelines[]> {
+    let names: string[];
+
+    try {
+      names = await readdir(this.dir);
+    } catch {
+      return [];
+    }
+
+    const documents = await Promise.all(
+      names
+        .filter(name => name.endsWith('.json'))
+        .map(name => this.get(name.slice(0, -'.json'.length)))
+    );
+
+    return documents.filter((document): document is ProjectGuidelines => document !== null);
+  }
+
+  // Project IDs are validated by GuidelineService, so they are safe file names
+  private path(projectId: string): string {
+    return join(this.dir, `${projectId}.json`);
+  }
+}
@@ -0,0 +1,267 @@
+/**
+ * Project Guidelines Service
+ * Stores team-defined house rules per project and renders them for review prompts
+ */
+
+import type { EnvConfig, ProjectGuidelines } from '../types/index.ts';
+import { ForbiddenError, NotFoundError, ValidationError, safeJsonParse } from '../utils/errors.ts';
+import { detectInjection } from './injection.ts';
+import { logger } from '../utils/logger.ts';
+
+const KEY_PREFIX = 'guidelines:';
+
+// Stored documents may be larger than the prompt budget; this bounds storage itself
+const MAX_DOCUMENT_LENGTH = 50000;
+const MAX_NAME_LENGTH = 100;
+
+const PROJECT_ID_PATTERN = /^[a-z0-9][a-z0-9_-]{0,63}$/i;
+
+// Persistence backend for guideline documents
+export interface GuidelineStore {
+  readonly name: string;
+  get(projectId: string): Promise<ProjectGuidelines | null>;
+  put(document: ProjectGuidelines): Promise<void>;
+  delete(projectId: string): Promise<boolean>;
+  list(): Promise<ProjectGuidelines[]>;
+}
+
+export interface GuidelineInput {
+  name?: unknown;
+  content?: unknown;
+}
+
+// Guidelines rendered for a prompt, cut to the configured budget
+export interface PromptGuidelines {
+  projectId: string;
+  text: string;
+  truncated: boolean;
+}
+
+/**
+ * Guidelines stored in a KV namespace, one key per project
+ */
+export class KVGuidelineStore implements GuidelineStore {
+  readonly name = 'kv';
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async get(projectId: string): Promise<ProjectGuidelines | null> {
+    const data = await this.kv.get(`${KEY_PREFIX}${projectId}`, 'text');
+    return data ? safeJsonParse<ProjectGuidelines | null>(data, null) : null;
+  }
+
+  async put(document: ProjectGuidelines): Promise<void> {
+    await this.kv.put(`${KEY_PREFIX}${document.project_id}`, JSON.stringify(document));
+  }
+
+  async delete(projectId: string): Promise<boolean> {
+    const existing = await this.get(projectId);
+    await this.kv.delete(`${KEY_PREFIX}${projectId}`);
+    return existing !== null;
+  }
+
+  async list(): Promise<ProjectGuidelines[]> {
+    const documents: ProjectGuidelines[] = [];
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.kv.list({ prefix: KEY_PREFIX, cursor });
+
+      for (const key of page.keys) {
+        const document = await this.get(key.name.slice(KEY_PREFIX.length));
+        if (document) documents.push(document);
+      }
+
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+
+    return documents;
+  }
+}
+
+// Shared across requests so the Bun dev server keeps guidelines between calls
+const memoryStore = new Map<string, ProjectGuidelines>();
+
+/**
+ * Guidelines kept in process memory; lost on restart
+ */
+export class MemoryGuidelineStore implements GuidelineStore {
+  readonly name = 'memory';
+
+  async get(projectId: string): Promise<ProjectGuidelines | null> {
+    return memoryStore.get(projectId) || null;
+  }
+
+  async put(document: ProjectGuidelines): Promise<void> {
+    memoryStore.set(document.project_id, document);
+  }
+
+  async delete(projectId: string): Promise<boolean> {
+    return memoryStore.delete(projectId);
+  }
+
+  async list(): Promise<ProjectGuidelines[]> {
+    return Array.from(memoryStore.values());
+  }
+}
+
+export class GuidelineService {
+  private store: GuidelineStore;
+  private maxPromptLength: number;
+
+  constructor(store: GuidelineStore, maxPromptLength: number) {
+    this.store = store;
+    this.maxPromptLength = maxPromptLength;
+  }
+
+  /**
+   * List all guideline documents, sorted by project ID
+   */
+  async list(): Promise<ProjectGuidelines[]> {
+    const documents = await this.store.list();
+    return documents.sort((a, b) => a.project_id.localeCompare(b.project_id));
+  }
+
+  /**
+   * Get a project's guidelines
+   */
+  async get(projectId: string): Promise<ProjectGuidelines> {
+    this.validateProjectId(projectId);
+
+    const document = await this.store.get(projectId);
+
+    if (!document) {
+      throw new NotFoundError('Project guidelines not found', { projectId });
+    }
+
+    return document;
+  }
+
+  /**
+   * Create or replace a project's guidelines
+   * Another owner's document is refused, and text that addresses the reviewer is rejected
+   * because guidelines go into the system prompt
+   */
+  async save(
+    projectId: string,
+    input: GuidelineInput,
+    owner: string
+  ): Promise<{ document: ProjectGuidelines; created: boolean }> {
+    this.validateProjectId(projectId);
+
+    const { name, content } = input;
+
+    if (typeof content !== 'string' || content.trim().length === 0) {
+      throw new ValidationError('Content is required and must be a non-empty string');
+    }
+
+    if (content.length > MAX_DOCUMENT_LENGTH) {
+      throw new ValidationError(`Content exceeds maximum length of ${MAX_DOCUMENT_LENGTH} characters`);
+    }
+
+    if (name !== undefined && (typeof name !== 'string' || name.length > MAX_NAME_LENGTH)) {
+      throw new ValidationError(`Name must be a string of at most ${MAX_NAME_LENGTH} characters`);
+    }
+
+    const injectionHits = detectInjection([{ text: content }]);
+
+    if (injectionHits.length > 0) {
+      throw new ValidationError('Guidelines must not contain instructions aimed at the reviewer', {
+        hits: injectionHits.map(hit => ({ rule_id: hit.rule_id, description: hit.description, line: hit.line })),
+      });
+    }
+
+    const existing = await this.store.get(projectId);
+    this.assertOwner(existing, owner, projectId);
+
+    const now = new Date().toISOString();
+
+    const document: ProjectGuidelines = {
+      project_id: projectId,
+      name: (name as string | undefined)?.trim() || existing?.name || projectId,
+      content: content.trim(),
+      owner: existing?.owner || owner,
+      created_at: existing?.created_at || now,
+      updated_at: now,
+    };
+
+    await this.store.put(document);
+
+    logger.info('Project guidelines saved', {
+      projectId,
+      length: document.content.length,
+      created: !existing,
+    });
+
+    return { document, created: !existing };
+  }
+
+  /**
+   * Delete a project's guidelines
+   * Another owner's document is refused
+   */
+  async delete(projectId: string, owner: string): Promise<void> {
+    this.validateProjectId(projectId);
+    this.assertOwner(await this.store.get(projectId), owner, projectId);
+
+    if (!(await this.store.delete(projectId))) {
+      throw new NotFoundError('Project guidelines not found', { projectId });
+    }
+
+    logger.info('Project guidelines deleted', { projectId });
+  }
+
+  /**
+   * Load a project's guidelines for a review prompt, cut to the prompt budget
+   * Cuts fall on a line break where possible so no rule is left half-written
+   */
+  async getPromptGuidelines(projectId: string): Promise<PromptGuidelines> {
+    const { content } = await this.get(projectId);
+
+    if (content.length <= this.maxPromptLength) {
+      return { projectId, text: content, truncated: false };
+    }
+
+    const slice = content.slice(0, this.maxPromptLength);
+    const lineBreak = slice.lastIndexOf('\n');
+    const text = lineBreak > this.maxPromptLength / 2 ? slice.slice(0, lineBreak) : slice;
+
+    logger.warn('Project guidelines truncated to the prompt budget', {
+      projectId,
+      length: content.length,
+      budget: this.maxPromptLength,
+    });
+
+    return { projectId, text: text.trimEnd(), truncated: true };
+  }
+
+  /**
+   * Refuse changes to another owner's document; documents from before ownership have none
+   */
+  private assertOwner(document: ProjectGuidelines | null, owner: string, projectId: string): void {
+    if (document?.owner && document.owner !== owner) {
+      throw new ForbiddenError('These guidelines belong to another owner', { projectId });
+    }
+  }
+
+  private validateProjectId(projectId: string): void {
+    if (!PROJECT_ID_PATTERN.test(projectId)) {
+      throw new ValidationError('Project ID must be 1-64 letters, digits, "-" or "_"', { projectId });
+    }
+  }
+}
+
+// Export factory function
+export function createGuidelineService(
+  config: EnvConfig,
+  kv?: KVNamespace,
+  store?: GuidelineStore
+): GuidelineService {
+  const backend = store || (kv ? new KVGuidelineStore(kv) : new MemoryGuidelineStore());
+  const maxPromptLength = parseInt(config.MAX_GUIDELINES_LENGTH, 10);
+  logger.info('Guideline service initialized', { backend: backend.name, maxPromptLength });
+  return new GuidelineService(backend, maxPromptLength);
+}
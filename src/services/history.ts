@@ -0,0 +1,135 @@
+/**
+ * Conversation History Builder
+ * Fits prior turns into the model's context window next to the system and user prompts
+ */
+
+import type { ChatMessage, ModelInfo } from '../types/index.ts';
+import { ValidationError } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { estimateMessageTokens, estimateMessagesTokens } from '../utils/tokens.ts';
+
+// Output tokens reserved by default, capped by the model's own limit
+const DEFAULT_OUTPUT_TOKENS = 1500;
+
+// Never shrink the output reservation below this to make the prompt fit
+const MIN_OUTPUT_TOKENS = 256;
+
+// Headroom for estimation error
+const SAFETY_MARGIN_RATIO = 0.05;
+
+// Summarized turns are cut to this many characters
+const SUMMARY_MAX_CHARS = 600;
+
+export interface HistoryBudgetInput {
+  systemPrompt: string;
+  history: ChatMessage[];
+  userPrompt: string;
+  model: ModelInfo;
+  outputTokens?: number;
+}
+
+export interface HistoryBudgetResult {
+  messages: ChatMessage[];
+  maxTokens: number;
+  promptTokens: number;
+  keptCount: number;
+  summarizedCount: number;
+  droppedCount: number;
+}
+
+/**
+ * Condense an older turn: code blocks become placeholders and the text is truncated
+ */
+export function summarizeMessage(message: ChatMessage): ChatMessage {
+  let content = message.content.replace(/```[\w-]*\n([\s\S]*?)```/g, (_, code: string) => {
+    const lines = code.split('\n').length;
+    return `[code block omitted: ${lines} lines]`;
+  });
+
+  if (content.length > SUMMARY_MAX_CHARS) {
+    content = `${content.slice(0, SUMMARY_MAX_CHARS)}\n[...earlier content truncated]`;
+  }
+
+  return { role: message.role, content };
+}
+
+/**
+ * Select the prior turns that fit the model's context budget
+ * The newest turns are kept verbatim, older ones are summarized, and the oldest are
+ * dropped once even their summaries no longer fit
+ */
+export function buildHistory(input: HistoryBudgetInput): HistoryBudgetResult {
+  const { systemPrompt, history, userPrompt, model } = input;
+
+  const contextWindow = model.contextWindow;
+  const safetyMargin = Math.ceil(contextWindow * SAFETY_MARGIN_RATIO);
+  const fixedTokens =
+    estimateMessageTokens({ role: 'system', content: systemPrompt }) +
+    estimateMessageTokens({ role: 'user', content: userPrompt });
+
+  let maxTokens = Math.min(input.outputTokens || DEFAULT_OUTPUT_TOKENS, model.maxOutputTokens);
+
+  // Shrink the output reservation before rejecting an oversized prompt
+  const available = contextWindow - safetyMargin - fixedTokens;
+  if (available < maxTokens) {
+    maxTokens = Math.max(MIN_OUTPUT_TOKENS, available);
+  }
+
+  let budget = available - maxTokens;
+
+  if (budget < 0) {
+    throw new ValidationError('Input is too large for the model context window', {
+      model: model.id,
+      contextWindow,
+      promptTokens: fixedTokens,
+    });
+  }
+
+  const kept: ChatMessage[] = [];
+  let summarizedCount = 0;
+  let index = history.length - 1;
+
+  for (; index >= 0; index--) {
+    const message = history[index];
+    const fullTokens = estimateMessageTokens(message);
+
+    if (fullTokens <= budget) {
+      kept.unshift(message);
+      budget -= fullTokens;
+      continue;
+    }
+
+    const summary = summarizeMessage(message);
+    const summaryTokens = estimateMessageTokens(summary);
+
+    if (summaryTokens <= budget) {
+      kept.unshift(summary);
+      budget -= summaryTokens;
+      summarizedCount++;
+      continue;
+    }
+
+    break;
+  }
+
+  const droppedCount = index + 1;
+  const promptTokens = fixedTokens + estimateMessagesTokens(kept);
+
+  if (summarizedCount > 0 || droppedCount > 0) {
+    logger.debug('Conversation history trimmed to fit context', {
+      model: model.id,
+      keptCount: kept.length,
+      summarizedCount,
+      droppedCount,
+    });
+  }
+
+  return {
+    messages: kept,
+    maxTokens,
+    promptTokens,
+    keptCount: kept.length,
+    summarizedCount,
+    droppedCount,
+  };
+}
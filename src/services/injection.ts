@@ -0,0 +1,276 @@
+/**
+ * Prompt Injection Defense
+ * Fences untrusted code, detects instructions aimed at the reviewer, and checks
+ * reviews against static pre-checks
+ */
+
+import type { ReviewFinding, Severity } from '../types/index.ts';
+import { SEVERITIES } from './findings.ts';
+
+// Text to scan, with an optional mapping from its lines to reported line numbers
+export interface ScanTarget {
+  text: string;
+  file?: string;
+  lines?: (number | null)[];
+}
+
+export interface PatternRule {
+  id: string;
+  description: string;
+  pattern: RegExp;
+}
+
+export interface StaticCheckRule extends PatternRule {
+  severity: Severity;
+}
+
+export interface PatternHit {
+  rule_id: string;
+  description: string;
+  excerpt: string;
+  line: number | null;
+  file?: string;
+}
+
+export interface StaticCheckHit extends PatternHit {
+  severity: Severity;
+}
+
+/**
+ * Phrases that address the reviewing model rather than describe the code
+ */
+export const INJECTION_RULES: PatternRule[] = [
+  {
+    id: 'override-instructions',
+    description: 'asks the reviewer to ignore its instructions',
+    pattern: /\b(ignore|disregard|forget|override|bypass)\b.{0,30}\b(previous|prior|above|earlier|preceding|all|any|your|system)\b.{0,20}\b(instructions?|prompts?|rules|directions|guidelines|context)\b/i,
+  },
+  {
+    id: 'role-change',
+    description: 'tries to change the reviewer\'s role',
+    pattern: /\b(you are now|from now on,? you|act as|pretend (to be|you are)|new (instructions|role|task)\s*:)/i,
+  },
+  {
+    id: 'verdict-dictation',
+    description: 'dictates the outcome of the review',
+    pattern: /\b(say|respond|reply|report|tell|state|conclude|confirm|mark|rate|classify)\b.{0,40}\b(code|this|file|it)\b.{0,20}\b(is|as)\b.{0,15}\b(perfect|secure|safe|fine|flawless|clean|bug[- ]free|correct|approved|lgtm)\b/i,
+  },
+  {
+    id: 'suppress-findings',
+    description: 'asks the reviewer to hide problems',
+    pattern: /\b(do not|don't|never|avoid)\b.{0,15}\b(report|flag|mention|list|include|raise)\b.{0,30}\b(issues?|bugs?|vulnerabilit(y|ies)|problems?|findings?|warnings?)\b/i,
+  },
+  {
+    id: 'addresses-reviewer',
+    description: 'addresses the AI reviewer directly',
+    pattern: /\b(dear|attention|note to|hey|hi)?\s*\b(ai|llm|language model|assistant|code reviewer|chatgpt|gpt-?\d?|claude|llama|copilot)\s*[:,]\s*(please|you|ignore|the|this)\b/i,
+  },
+  {
+    id: 'chat-template-token',
+    description: 'contains chat template control tokens',
+    pattern: /<\|(im_start|im_end|system|user|assistant|endoftext)\|>|\[\/?INST\]|<<\/?SYS>>|<\/?system(_prompt)?>/i,
+  },
+];
+
+/**
+ * Cheap static checks for risky constructs; used to sanity-check the model's verdict
+ */
+export const STATIC_CHECK_RULES: StaticCheckRule[] = [
+  { id: 'eval', description: 'eval() call', severity: 'critical', pattern: /\beval\s*\(/ },
+  { id: 'function-constructor', description: 'new Function() call', severity: 'critical', pattern: /\bnew\s+Function\s*\(/ },
+  { id: 'shell-exec', description: 'shell command execution', severity: 'critical', pattern: /\b(os\.system|child_process\.exec|execSync|shell_exec|Runtime\.getRuntime\(\)\.exec)\s*\(|subprocess\.\w+\([^)]*shell\s*=\s*True/ },
+  { id: 'sql-concatenation', description: 'SQL query built by string concatenation', severity: 'critical', pattern: /["'`]\s*(SELECT|INSERT|UPDATE|DELETE)\b[^"'`]*["'`]\s*(\+|\.\s*\w+\s*\+|%\s*\(?\w)|\b(SELECT|INSERT|UPDATE|DELETE)\b[^"'`\n]*\$\{/i },
+  { id: 'inner-html', description: 'assignment to innerHTML', severity: 'warning', pattern: /\.(innerHTML|outerHTML)\s*=(?!=)/ },
+  { id: 'document-write', description: 'document.write() call', severity: 'warning', pattern: /\bdocument\.write(ln)?\s*\(/ },
+  { id: 'unsafe-deserialization', description: 'unsafe deserialization', severity: 'critical', pattern: /\b(pickle\.loads?|marshal\.loads?|yaml\.load)\s*\((?![^)]*Loader\s*=\s*yaml\.SafeLoader)/ },
+  { id: 'disabled-tls', description: 'TLS verification disabled', severity: 'warning', pattern: /verify\s*=\s*False|rejectUnauthorized\s*:\s*false|InsecureSkipVerify\s*:\s*true/ },
+];
+
+/**
+ * Run pattern rules over each line of the targets
+ */
+function scanLines<T extends PatternRule>(targets: ScanTarget[], rules: T[]): (PatternHit & { rule: T })[] {
+  const hits: (PatternHit & { rule: T })[] = [];
+
+  for (const target of targets) {
+    const lines = target.text.split('\n');
+
+    lines.forEach((text, index) => {
+      for (const rule of rules) {
+        const match = text.match(rule.pattern);
+
+        if (!match) {
+          continue;
+        }
+
+        hits.push({
+          rule,
+          rule_id: rule.id,
+          description: rule.description,
+          excerpt: text.trim().slice(0, 120),
+          line: target.lines ? target.lines[index] ?? null : index + 1,
+          file: target.file,
+        });
+      }
+    });
+  }
+
+  return hits;
+}
+
+/**
+ * Find instruction-like text aimed at the reviewer inside submitted code
+ * At most one hit is reported per line
+ */
+export function detectInjection(targets: ScanTarget[]): PatternHit[] {
+  const seen = new Set<string>();
+
+  return scanLines(targets, INJECTION_RULES)
+    .filter(hit => {
+      const key = `${hit.file || ''}:${hit.line}:${hit.excerpt}`;
+      if (seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    })
+    .map(({ rule: _rule, ...hit }) => hit);
+}
+
+/**
+ * Run the static pre-checks over submitted code
+ */
+export function runStaticChecks(targets: ScanTarget[]): StaticCheckHit[] {
+  return scanLines(targets, STATIC_CHECK_RULES).map(({ rule, ...hit }) => ({
+    ...hit,
+    severity: rule.severity,
+  }));
+}
+
+/**
+ * Pick a fence and boundary marker that do not occur anywhere in the content
+ * The fence is longer than any backtick run in the content, and the boundary id is
+ * regenerated until it is absent, so the content cannot close the block early
+ */
+export function fenceUntrusted(content: string, language: string = ''): string {
+  const longestRun = Math.max(0, ...(content.match(/`+/g) || []).map(run => run.length));
+  const fence = '`'.repeat(Math.max(3, longestRun + 1));
+
+  let boundary: string;
+  do {
+    boundary = crypto.randomUUID().replace(/-/g, '').slice(0, 12);
+  } while (content.includes(boundary));
+
+  return `<<<UNTRUSTED_CODE ${boundary}>>>
+${fence}${language}
+${content}
+${fence}
+<<<END_UNTRUSTED_CODE ${boundary}>>>`;
+}
+
+/**
+ * Report injection attempts as security findings
+ */
+export function injectionFindings(hits: PatternHit[]): ReviewFinding[] {
+  return hits.map((hit, index) => {
+    const finding: ReviewFinding = {
+      id: `P${index + 1}`,
+      category: 'security',
+      severity: 'warning',
+      line_start: hit.line,
+      line_end: hit.line,
+      message: `Possible prompt injection: the code ${hit.description} ("${hit.excerpt}"). It was treated as data and not followed.`,
+      suggested_fix: 'Remove text addressed to automated reviewers; if it came from a third party, inspect the change manually.',
+    };
+
+    if (hit.file) {
+      finding.file = hit.file;
+    }
+
+    return finding;
+  });
+}
+
+/**
+ * Whether a finding covers a static check hit
+ */
+function coversHit(finding: ReviewFinding, hit: PatternHit): boolean {
+  if (hit.line === null || finding.line_start === null) return false;
+  if (hit.file && finding.file && hit.file !== finding.file) return false;
+
+  const end = finding.line_end ?? finding.line_start;
+  return hit.line >= finding.line_start - 2 && hit.line <= end + 2;
+}
+
+/**
+ * Flag a review that contradicts the static pre-checks
+ * Structured reviews must raise a warning or worse near every risky construct; free-text
+ * reviews only contradict the checks when they declare the code INFO. Findings is null
+ * for free-text reviews
+ */
+export function checkReviewConsistency(
+  review: { severity: Severity; findings: ReviewFinding[] | null },
+  staticHits: StaticCheckHit[],
+  injectionHits: PatternHit[]
+): ReviewFinding[] {
+  const atLeastWarning = (severity: Severity) => SEVERITIES.indexOf(severity) >= SEVERITIES.indexOf('warning');
+  const serious = (review.findings || []).filter(finding => atLeastWarning(finding.severity));
+
+  const missed = staticHits.filter(hit =>
+    atLeastWarning(hit.severity) &&
+    (review.findings === null
+      ? review.severity === 'info'
+      : !serious.some(finding => coversHit(finding, hit)))
+  );
+
+  const findings: ReviewFinding[] = [];
+
+  if (missed.length > 0) {
+    const evidence = missed
+      .slice(0, 5)
+      .map(hit => `${hit.description}${hit.line !== null ? ` (${hit.file ? `${hit.file}, ` : ''}line ${hit.line})` : ''}`)
+      .join('; ');
+
+    const finding: ReviewFinding = {
+      id: 'C1',
+      category: 'security',
+      severity: 'warning',
+      line_start: missed[0].line,
+      line_end: missed[0].line,
+      message: `The review does not address risky constructs found by static checks: ${evidence}. Verify them manually.`,
+      suggested_fix: null,
+    };
+
+    if (missed[0].file) {
+      finding.file = missed[0].file;
+    }
+
+    findings.push(finding);
+  }
+
+  if (injectionHits.length > 0 && review.severity === 'info') {
+    findings.push({
+      id: `C${findings.length + 1}`,
+      category: 'security',
+      severity: 'warning',
+      line_start: null,
+      line_end: null,
+      message: 'The review reports no problems for code that contains instructions aimed at the reviewer. It may have been manipulated; review this code manually.',
+      suggested_fix: null,
+    });
+  }
+
+  return findings;
+}
+
+/**
+ * Markdown notice listing injection attempts and contradicted pre-checks, appended to the review
+ */
+export function renderInjectionMarkdown(findings: ReviewFinding[]): string {
+  const items = findings.map(finding => {
+    const location = [finding.file, finding.line_start !== null ? `line ${finding.line_start}` : '']
+      .filter(Boolean)
+      .join(', ');
+    return `- **[${finding.severity.toUpperCase()}] ${finding.id}**${location ? ` (${location})` : ''}: ${finding.message}`;
+  });
+
+  return `**Prompt Injection Checks**:\n${items.join('\n')}`;
+}
@@ -0,0 +1,154 @@
+/**
+ * Message Intent Classification
+ * Decides whether a message is reviewed, explained or answered as chat,
+ * using what the message contains and how the conversation got here
+ */
+
+import type { ChatMessage, ChatMode, ModeClassification, RequestedMode } from '../types/index.ts';
+
+export const REQUEST_MODES: RequestedMode[] = ['auto', 'review', 'chat', 'explain'];
+
+// Fenced code blocks are code no matter what they contain
+const FENCED_BLOCK = /```[^\n]*\n[\s\S]*?(```|$)/g;
+
+// Inline code in prose (`arr.map()`) mentions code without submitting it
+const INLINE_CODE = /`[^`\n]+`/g;
+
+// Lines that are syntax rather than prose
+const CODE_LINE_PATTERNS: RegExp[] = [
+  // Statement and block endings
+  /[;{}]\s*$/,
+  // Closing brackets
+  /^\s*[)\]}]/,
+  // Declarations
+  /^\s*(def|class|fn|func|function|interface|struct|enum|impl|trait)\s+\w+/,
+  /^\s*(export\s+)?(const|let|var|val)\s+[\w{[]+\s*[:=]/,
+  /^\s*(public|private|protected|static|async)\s+[\w<>[\]]+\s+\w+/,
+  // Imports
+  /^\s*(import\s+[\w{*'"]|from\s+[\w.]+\s+import\b|#include\s*[<"]|package\s+[\w.]+;?\s*$|using\s+[\w.]+;)/,
+  // Control flow with parenthesized conditions or trailing colons
+  /^\s*(if|for|while|switch|catch|else if)\s*\(.*\)/,
+  /^\s*(if|for|while|elif|else|try|except|finally|with)\b.*:\s*$/,
+  // Bare returns, assignments and calls
+  /^\s*return(\s+[\w.()[\]'"]+)?\s*$/,
+  /^\s*[\w.[\]]+\s*(=|\+=|-=|:=)\s*\S/,
+  /^\s*(await\s+)?[\w.]+\(.*\)\s*;?\s*$/,
+  // Arrow functions
+  /=>\s*[{(\w]/,
+  // Markup
+  /^\s*<\/?[a-z][\w-]*(\s[^>]*)?\/?>/i,
+  // SQL written in upper case
+  /^\s*(SELECT|INSERT|UPDATE|DELETE|CREATE|ALTER|DROP)\s+[\w*]/,
+];
+
+// Comment lines count as neither code nor prose
+const COMMENT_LINE = /^\s*(\/\/|\/\*|\*|#|--)/;
+
+const QUESTION = /\?\s*$|^\s*(why|how|what|when|where|which|who|is|are|does|do|did|can|could|should|would|will)\b/im;
+
+const EXPLAIN_REQUEST = /\b(explain|walk (me )?through|help me understand|break (it|this) down|what (does|is) (this|the|it)\b|how does (this|the|it)\b|tell me what)/i;
+
+const REVIEW_REQUEST = /\b(review|audit|check (this|my|the|it)|any (issues|bugs|problems)|find (bugs|issues|problems)|what'?s wrong|is (this|it) (safe|secure|correct|ok|okay|better)|look over|feedback on)\b/i;
+
+interface MessageShape {
+  codeLines: number;
+  proseLines: number;
+  fenced: boolean;
+  prose: string;
+}
+
+/**
+ * Split a message into code and prose lines
+ */
+function analyzeMessage(message: string): MessageShape {
+  const blocks = message.match(FENCED_BLOCK) || [];
+  const unfenced = message.replace(FENCED_BLOCK, '\n').replace(INLINE_CODE, 'code');
+
+  let codeLines = blocks.reduce((total, block) => total + block.split('\n').length - 2, 0);
+  const proseParts: string[] = [];
+
+  for (const line of unfenced.split('\n')) {
+    if (line.trim().length === 0 || COMMENT_LINE.test(line)) continue;
+
+    if (CODE_LINE_PATTERNS.some(pattern => pattern.test(line))) {
+      codeLines++;
+    } else {
+      proseParts.push(line.trim());
+    }
+  }
+
+  return {
+    codeLines,
+    proseLines: proseParts.length,
+    fenced: blocks.length > 0,
+    prose: proseParts.join('\n'),
+  };
+}
+
+/**
+ * Mode of the most recent assistant turn, if any
+ */
+function lastAssistantMode(history: ChatMessage[]): ChatMode | null {
+  for (let i = history.length - 1; i >= 0; i--) {
+    const message = history[i];
+
+    if (message.role === 'assistant') {
+      // Sessions stored before modes were recorded mark reviews only by their findings
+      return message.mode || (message.findings ? 'review' : null);
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Classify a message as a review, an explanation or chat
+ * Code with a question about it is explained, unless the conversation is already a
+ * review and the question asks for another look; prose after a review or explanation
+ * is a follow-up answered in context
+ */
+export function classifyMode(message: string, history: ChatMessage[] = []): ModeClassification {
+  const shape = analyzeMessage(message);
+  const previous = lastAssistantMode(history);
+
+  const hasCode = shape.fenced
+    || shape.codeLines >= 3
+    || (shape.codeLines > 0 && shape.codeLines >= shape.proseLines);
+
+  if (hasCode) {
+    if (REVIEW_REQUEST.test(shape.prose)) {
+      return { mode: 'review', source: 'auto', reason: 'review requested' };
+    }
+
+    if (EXPLAIN_REQUEST.test(shape.prose)) {
+      return { mode: 'explain', source: 'auto', reason: 'explanation requested' };
+    }
+
+    if (QUESTION.test(shape.prose)) {
+      return previous === 'review'
+        ? { mode: 'review', source: 'auto', reason: 'revised code after a review' }
+        : { mode: 'explain', source: 'auto', reason: 'question about code' };
+    }
+
+    return { mode: 'review', source: 'auto', reason: 'code' };
+  }
+
+  if (previous === 'review' || previous === 'explain') {
+    return { mode: 'chat', source: 'auto', reason: `follow-up to ${previous}` };
+  }
+
+  return { mode: 'chat', source: 'auto', reason: 'conversation' };
+}
+
+/**
+ * Resolve the requested mode, classifying the message when it is 'auto'
+ */
+export function resolveMode(
+  requested: RequestedMode = 'auto',
+  message: string,
+  history: ChatMessage[] = []
+): ModeClassification {
+  return requested === 'auto'
+    ? classifyMode(message, history)
+    : { mode: requested, source: 'user', reason: 'requested' };
+}
@@ -0,0 +1,78 @@
+/**
+ * LLM Provider Factory
+ * Selects the LLM provider from configuration
+ */
+
+import type { EnvConfig, LLMProvider } from '../types/index.ts';
+import { ValidationError } from '../utils/errors.ts';
+import { LLM_PROVIDERS, parseFallbackChain } from '../config/models.ts';
+import { createFallbackLLMProvider } from './fallback.ts';
+import type { FallbackTarget } from './fallback.ts';
+import { createGroqService } from './groq.ts';
+import { createMockLLMService } from './mock.ts';
+import { createOpenAICompatibleService } from './openai.ts';
+import { createResilientLLMProvider } from './resilience.ts';
+
+/**
+ * Create the LLM provider configured by LLM_PROVIDER
+ * wrapped with timeouts, retries and a circuit breaker, and with the
+ * LLM_FALLBACK_CHAIN when one is configured
+ */
+export function createLLMProvider(config: EnvConfig): LLMProvider {
+  const primary = createResilientLLMProvider(createBaseProvider(config, config.LLM_PROVIDER), config);
+  const fallbackChain = parseFallbackChain(config);
+
+  if (fallbackChain.length === 0) {
+    return primary;
+  }
+
+  // One provider instance per provider name, shared by all of its chain entries and
+  // by requested models outside the chain
+  const providers = new Map<string, LLMProvider>([[primary.name, primary]]);
+  const resolveProvider = (name: string): LLMProvider => {
+    let provider = providers.get(name);
+
+    if (!provider) {
+      provider = createResilientLLMProvider(createBaseProvider(config, name), config);
+      providers.set(name, provider);
+    }
+
+    return provider;
+  };
+
+  const chain: FallbackTarget[] = fallbackChain.map(entry => ({
+    provider: resolveProvider(entry.provider),
+    model: entry.model,
+  }));
+
+  // The primary model always goes first
+  const primaryIndex = chain.findIndex(
+    target => target.provider === primary && target.model === primary.model
+  );
+
+  if (primaryIndex < 0) {
+    chain.unshift({ provider: primary, model: primary.model });
+  } else if (primaryIndex > 0) {
+    chain.unshift(...chain.splice(primaryIndex, 1));
+  }
+
+  return createFallbackLLMProvider(chain, resolveProvider);
+}
+
+/**
+ * Create the bare provider for a provider name
+ */
+function createBaseProvider(config: EnvConfig, name: string): LLMProvider {
+  switch (name) {
+    case 'groq':
+      return createGroqService(config);
+    case 'openai':
+      return createOpenAICompatibleService(config);
+    case 'mock':
+      return createMockLLMService(config);
+    default:
+      throw new ValidationError(`Unknown LLM provider: ${name}`, {
+        supported: LLM_PROVIDERS,
+      });
+  }
+}
@@ -0,0 +1,77 @@
+/**
+ * AI Service (Mock)
+ * Deterministic in-process provider for local development and offline testing
+ */
+
+import type { ChatMessage, CompletionOptions, DeltaHandler, EnvConfig, LLMCompletion } from '../types/index.ts';
+import { logger } from '../utils/logger.ts';
+import { BaseLLMProvider } from './provider.ts';
+
+export const MOCK_DEFAULT_MODEL = 'mock-reviewer';
+
+export class MockLLMService extends BaseLLMProvider {
+  readonly name = 'mock';
+
+  constructor(config: EnvConfig) {
+    super(config.LLM_MODEL || MOCK_DEFAULT_MODEL);
+  }
+
+  /**
+   * Build a deterministic response from the last user message
+   */
+  async chatCompletion(
+    messages: ChatMessage[],
+    options?: CompletionOptions
+  ): Promise<LLMCompletion> {
+    const lastUser = [...messages].reverse().find(msg => msg.role === 'user');
+    const input = lastUser?.content || '';
+    const lineCount = input.split('\n').length;
+
+    logger.logAIRequest('mock', JSON.stringify(messages).length);
+
+    const content = options?.jsonMode
+      ? JSON.stringify({
+          summary: `Mock review of ${lineCount} line(s), ${input.length} character(s)`,
+          findings: [],
+        })
+      : `**Severity**: INFO
+
+**Issues Found**:
+- No issues detected by the mock provider
+
+**Suggestions**:
+1. Input received: ${lineCount} line(s), ${input.length} character(s)
+2. Configure LLM_PROVIDER=groq or LLM_PROVIDER=openai for real reviews
+
+**Positive Aspects**:
+- Request pipeline is working end to end`;
+
+    logger.logAIResponse('mock', content.length, 0);
+
+    return { content, model: options?.model || this.model, provider: this.name };
+  }
+
+  /**
+   * Stream the deterministic response word by word
+   */
+  async chatCompletionStream(
+    messages: ChatMessage[],
+    onDelta: DeltaHandler,
+    options?: CompletionOptions
+  ): Promise<LLMCompletion> {
+    const completion = await this.chatCompletion(messages, options);
+
+    for (const chunk of completion.content.match(/\S+\s*/g) || []) {
+      await onDelta(chunk);
+    }
+
+    return completion;
+  }
+}
+
+// Export factory function
+export function createMockLLMService(config: EnvConfig): MockLLMService {
+  const service = new MockLLMService(config);
+  logger.info('Mock LLM service initialized', { model: service.model });
+  return service;
+}
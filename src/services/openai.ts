@@ -0,0 +1,248 @@
+/**
+ * AI Service (OpenAI-compatible)
+ * Handles AI requests against any OpenAI-compatible endpoint (vLLM, Ollama, LM Studio)
+ */
+
+import type { ChatMessage, CompletionOptions, DeltaHandler, EnvConfig, LLMCompletion } from '../types/index.ts';
+import { AIServiceError, parseRetryAfter } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { BaseLLMProvider } from './provider.ts';
+
+export const OPENAI_DEFAULT_MODEL = 'gpt-4o-mini';
+
+interface OpenAIChatResponse {
+  choices?: Array<{
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+  }>;
+}
+
+export class OpenAICompatibleService extends BaseLLMProvider {
+  readonly name = 'openai';
+  private baseUrl: string;
+  private apiKey?: string;
+
+  constructor(config: EnvConfig) {
+    super(config.LLM_MODEL || OPENAI_DEFAULT_MODEL);
+    this.baseUrl = (config.OPENAI_BASE_URL || 'http://localhost:11434/v1').replace(/\/+$/, '');
+    this.apiKey = config.OPENAI_API_KEY;
+  }
+
+  /**
+   * Send chat completion request to the OpenAI-compatible endpoint
+   */
+  async chatCompletion(
+    messages: ChatMessage[],
+    options?: CompletionOptions
+  ): Promise<LLMCompletion> {
+    const startTime = Date.now();
+
+    try {
+      logger.logAIRequest('code-review', JSON.stringify(messages).length);
+
+      const response = await this.request(messages, false, options);
+      const data = await response.json() as OpenAIChatResponse;
+
+      if (!data.choices || data.choices.length === 0) {
+        logger.error('No choices in response');
+        throw new AIServiceError('No response from model');
+      }
+
+      const content = data.choices[0].message?.content;
+
+      if (!content) {
+        logger.error('Empty content in message');
+        throw new AIServiceError('Empty response from model');
+      }
+
+      const duration = Date.now() - startTime;
+      logger.logAIResponse('code-review', content.length, duration);
+
+      return { content, model: options?.model || this.model, provider: this.name };
+    } catch (error) {
+      logger.error('OpenAI-compatible request failed', error);
+
+      if (error instanceof AIServiceError) {
+        throw error;
+      }
+
+      throw new AIServiceError(
+        (error as Error).message || 'Unknown error occurred',
+        { originalError: (error as Error).message }
+      );
+    }
+  }
+
+  /**
+   * Send streaming chat completion request to the OpenAI-compatible endpoint
+   */
+  async chatCompletionStream(
+    messages: ChatMessage[],
+    onDelta: DeltaHandler,
+    options?: CompletionOptions
+  ): Promise<LLMCompletion> {
+    const startTime = Date.now();
+
+    try {
+      logger.logAIRequest('code-review-stream', JSON.stringify(messages).length);
+
+      const response = await this.request(messages, true, options);
+
+      if (!response.body) {
+        throw new AIServiceError('Empty response stream from model');
+      }
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let content = '';
+
+      while (true) {
+        const { value, done } = await this.read(() => reader.read());
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith('data:')) continue;
+
+          const payload = trimmed.slice(5).trim();
+          if (payload === '[DONE]') continue;
+
+          let chunk: OpenAIChatResponse;
+          try {
+            chunk = JSON.parse(payload) as OpenAIChatResponse;
+          } catch {
+            logger.warn('Skipping malformed stream chunk');
+            continue;
+          }
+
+          const delta = chunk.choices?.[0]?.delta?.content;
+
+          if (delta) {
+            content += delta;
+            await onDelta(delta);
+          }
+        }
+      }
+
+      if (!content) {
+        logger.error('Empty content in stream');
+        throw new AIServiceError('Empty response from model');
+      }
+
+      const duration = Date.now() - startTime;
+      logger.logAIResponse('code-review-stream', content.length, duration);
+
+      return { content, model: options?.model || this.model, provider: this.name };
+    } catch (error) {
+      logger.error('OpenAI-compatible streaming request failed', error);
+
+      if (error instanceof AIServiceError) {
+        throw error;
+      }
+
+      throw new AIServiceError(
+        (error as Error).message || 'Unknown error occurred',
+        { originalError: (error as Error).message }
+      );
+    }
+  }
+
+  /**
+   * POST a chat completion request and check the response status
+   */
+  private async request(
+    messages: ChatMessage[],
+    stream: boolean,
+    options?: CompletionOptions
+  ): Promise<Response> {
+    logger.info('Sending request to OpenAI-compatible API', {
+      baseUrl: this.baseUrl,
+      model: options?.model || this.model,
+      messageCount: messages.length,
+      maxTokens: options?.maxTokens || 1000,
+      stream,
+    });
+
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+    };
+
+    if (this.apiKey) {
+      headers['Authorization'] = `Bearer ${this.apiKey}`;
+    }
+
+    let response: Response;
+
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers,
+        body: JSON.stringify({
+          model: options?.model || this.model,
+          messages: messages.map(msg => ({
+            role: msg.role,
+            content: msg.content,
+          })),
+          max_tokens: options?.maxTokens || 1000,
+          temperature: options?.temperature || 0.3,
+          top_p: options?.topP || 0.9,
+          ...(options?.jsonMode && { response_format: { type: 'json_object' } }),
+          stream,
+        }),
+        signal: options?.signal,
+      });
+    } catch (error) {
+      throw this.networkError(error);
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new AIServiceError(
+        `OpenAI-compatible API returned ${response.status}`,
+        {
+          status: response.status,
+          retryAfterMs: parseRetryAfter(response.headers.get('retry-after')),
+          originalError: errorText.slice(0, 500),
+        }
+      );
+    }
+
+    return response;
+  }
+
+  /**
+   * Read the next chunk of a streamed response, flagging a dropped connection
+   */
+  private async read<T>(next: () => Promise<T>): Promise<T> {
+    try {
+      return await next();
+    } catch (error) {
+      throw this.networkError(error);
+    }
+  }
+
+  /**
+   * Failure to reach the endpoint or to read its response, which is worth retrying
+   */
+  private networkError(error: unknown): AIServiceError {
+    return new AIServiceError(
+      `OpenAI-compatible API request failed: ${(error as Error).message}`,
+      { network: true, originalError: (error as Error).message }
+    );
+  }
+}
+
+// Export factory function
+export function createOpenAICompatibleService(config: EnvConfig): OpenAICompatibleService {
+  const service = new OpenAICompatibleService(config);
+  logger.info('OpenAI-compatible service initialized', {
+    model: service.model,
+    baseUrl: config.OPENAI_BASE_URL,
+  });
+  return service;
+}
@@ -0,0 +1,295 @@
+/**
+ * Patch Validation
+ * Parses model-written unified diffs, applies them to the reviewed code, and
+ * re-renders them with exact line numbers so they apply cleanly
+ */
+
+import type { FixedFile } from '../types/index.ts';
+import { resolveFindingFile } from './findings.ts';
+
+// Path used for a single reviewed snippet, which has no file name of its own
+export const SNIPPET_PATH = 'snippet';
+
+interface PatchLine {
+  type: 'add' | 'delete' | 'context';
+  content: string;
+}
+
+interface PatchHunk {
+  old_start: number;
+  lines: PatchLine[];
+}
+
+interface PatchFile {
+  path: string;
+  hunks: PatchHunk[];
+}
+
+// A hunk placed in the original file: 0-based position of its first old line
+interface PlacedHunk {
+  position: number;
+  lines: PatchLine[];
+}
+
+export type PatchResult =
+  | { ok: true; patch: string; files: FixedFile[] }
+  | { ok: false; error: string };
+
+const HUNK_HEADER = /^@@ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@/;
+
+/**
+ * Pull the diff out of a response, from a fenced block or the raw text
+ */
+export function extractPatch(response: string): string | null {
+  const blocks = Array.from(response.matchAll(/```[^\n]*\n([\s\S]*?)```/g), match => match[1]);
+  const candidates = blocks.length > 0 ? blocks : [response];
+  const patch = candidates.find(candidate => /^@@ -\d+/m.test(candidate));
+
+  return patch ? patch.replace(/\r\n?/g, '\n') : null;
+}
+
+/**
+ * Parse a unified diff without trusting its hunk line counts
+ * Models often miscount, so each hunk runs until the next header instead
+ */
+function parsePatch(patch: string): PatchFile[] {
+  const lines = patch.split('\n');
+  const files: PatchFile[] = [];
+  let file: PatchFile | null = null;
+  let hunk: PatchHunk | null = null;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith('diff --git ')) {
+      file = null;
+      hunk = null;
+      continue;
+    }
+
+    // A removed line can start with "---", so only a following "+++" makes it a header
+    if (line.startsWith('--- ') && lines[i + 1]?.startsWith('+++ ')) {
+      const path = lines[i + 1].slice(4).split('\t')[0].trim().replace(/^b\//, '');
+      file = { path, hunks: [] };
+      files.push(file);
+      hunk = null;
+      i++;
+      continue;
+    }
+
+    const header = line.match(HUNK_HEADER);
+    if (header) {
+      if (!file) {
+        file = { path: '', hunks: [] };
+        files.push(file);
+      }
+
+      hunk = { old_start: parseInt(header[1], 10), lines: [] };
+      file.hunks.push(hunk);
+      continue;
+    }
+
+    if (!hunk) {
+      continue;
+    }
+
+    if (line.startsWith('+')) {
+      hunk.lines.push({ type: 'add', content: line.slice(1) });
+    } else if (line.startsWith('-')) {
+      hunk.lines.push({ type: 'delete', content: line.slice(1) });
+    } else if (line.startsWith(' ') || line === '') {
+      hunk.lines.push({ type: 'context', content: line.slice(1) });
+    } else if (!line.startsWith('\\')) {
+      hunk = null;
+    }
+  }
+
+  // Blank lines after the last change are usually padding, not context
+  for (const parsed of files) {
+    for (const parsedHunk of parsed.hunks) {
+      while (parsedHunk.lines.length > 0) {
+        const last = parsedHunk.lines[parsedHunk.lines.length - 1];
+        if (last.type !== 'context' || last.content !== '') break;
+        parsedHunk.lines.pop();
+      }
+    }
+  }
+
+  return files;
+}
+
+/**
+ * Whether the old side of a hunk matches the source at a position
+ * Trailing whitespace is ignored; the re-rendered patch uses the source's own lines
+ */
+function matchesAt(source: string[], oldLines: string[], position: number): boolean {
+  if (position < 0 || position + oldLines.length > source.length) {
+    return false;
+  }
+
+  return oldLines.every((line, index) => source[position + index].trimEnd() === line.trimEnd());
+}
+
+/**
+ * Find where a hunk applies, starting at its stated line and searching outward
+ */
+function locateHunk(source: string[], hunk: PatchHunk, minPosition: number): number | null {
+  const oldLines = hunk.lines.filter(line => line.type !== 'add').map(line => line.content);
+  const stated = Math.max(minPosition, oldLines.length === 0 ? hunk.old_start : hunk.old_start - 1);
+
+  if (oldLines.length === 0) {
+    // Insert before the empty string left by a trailing newline, not after it
+    const end = source[source.length - 1] === '' ? source.length - 1 : source.length;
+    return Math.min(stated, end);
+  }
+
+  for (let offset = 0; offset <= Math.max(stated, source.length); offset++) {
+    if (stated - offset >= minPosition && matchesAt(source, oldLines, stated - offset)) {
+      return stated - offset;
+    }
+    if (matchesAt(source, oldLines, stated + offset)) {
+      return stated + offset;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Explain why a hunk does not apply at its stated line, for the retry prompt
+ */
+function describeMismatch(source: string[], hunk: PatchHunk, path: string, index: number): string {
+  const oldLines = hunk.lines.filter(line => line.type !== 'add').map(line => line.content);
+  const start = hunk.old_start - 1;
+
+  for (let i = 0; i < oldLines.length; i++) {
+    const actual = source[start + i];
+
+    if (actual === undefined || actual.trimEnd() !== oldLines[i].trimEnd()) {
+      return `Hunk ${index + 1} in ${path} does not match the code: line ${start + i + 1} is ${
+        actual === undefined ? 'past the end of the file' : JSON.stringify(actual)
+      } but the patch expects ${JSON.stringify(oldLines[i])}, and the hunk's lines were not found elsewhere`;
+    }
+  }
+
+  return `Hunk ${index + 1} in ${path} overlaps an earlier hunk`;
+}
+
+/**
+ * Render placed hunks as a unified diff with exact headers
+ */
+function renderFilePatch(path: string, source: string[], hunks: PlacedHunk[]): string {
+  const out = [`diff --git a/${path} b/${path}`, `--- a/${path}`, `+++ b/${path}`];
+  let delta = 0;
+
+  for (const hunk of hunks) {
+    const oldCount = hunk.lines.filter(line => line.type !== 'add').length;
+    const newCount = hunk.lines.filter(line => line.type !== 'delete').length;
+    const oldStart = oldCount === 0 ? hunk.position : hunk.position + 1;
+    const newStart = newCount === 0 ? hunk.position + delta : hunk.position + delta + 1;
+
+    out.push(`@@ -${oldStart},${oldCount} +${newStart},${newCount} @@`);
+
+    let sourceIndex = hunk.position;
+    for (const line of hunk.lines) {
+      if (line.type === 'add') {
+        out.push(`+${line.content}`);
+      } else {
+        out.push(`${line.type === 'delete' ? '-' : ' '}${source[sourceIndex++]}`);
+      }
+    }
+
+    delta += newCount - oldCount;
+  }
+
+  return out.join('\n');
+}
+
+/**
+ * Apply a patch to the reviewed sources and re-render it so it applies cleanly
+ * Returns the reason when the patch is malformed or does not match the code
+ */
+export function applyPatch(sources: Record<string, string>, patch: string): PatchResult {
+  const paths = Object.keys(sources);
+  const files = parsePatch(patch).filter(file => file.hunks.length > 0);
+
+  if (files.length === 0) {
+    return { ok: false, error: 'The response does not contain a unified diff with any hunks' };
+  }
+
+  const rendered: string[] = [];
+  const patched: FixedFile[] = [];
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    // A single snippet has no real path, so any name the model used refers to it
+    const path = paths.length === 1 ? paths[0] : resolveFindingFile(file.path, paths);
+
+    if (!path) {
+      return {
+        ok: false,
+        error: `The patch changes ${JSON.stringify(file.path)}, which is not one of the reviewed files: ${paths.join(', ')}`,
+      };
+    }
+
+    if (seen.has(path)) {
+      return { ok: false, error: `The patch has more than one section for ${path}; put all of its hunks together` };
+    }
+    seen.add(path);
+
+    const source = sources[path].split('\n');
+    const placed: PlacedHunk[] = [];
+    let minPosition = 0;
+
+    for (const [index, hunk] of file.hunks.entries()) {
+      if (!hunk.lines.some(line => line.type !== 'context')) {
+        continue;
+      }
+
+      const position = locateHunk(source, hunk, minPosition);
+
+      if (position === null) {
+        return { ok: false, error: describeMismatch(source, hunk, path, index) };
+      }
+
+      placed.push({ position, lines: hunk.lines });
+      minPosition = position + hunk.lines.filter(line => line.type !== 'add').length;
+    }
+
+    if (placed.length === 0) {
+      continue;
+    }
+
+    const result: string[] = [];
+    let cursor = 0;
+
+    for (const hunk of placed) {
+      result.push(...source.slice(cursor, hunk.position));
+      cursor = hunk.position;
+
+      for (const line of hunk.lines) {
+        if (line.type === 'add') {
+          result.push(line.content);
+        } else {
+          if (line.type === 'context') result.push(source[cursor]);
+          cursor++;
+        }
+      }
+    }
+    result.push(...source.slice(cursor));
+
+    rendered.push(renderFilePatch(path, source, placed));
+    patched.push({
+      path,
+      content: result.join('\n'),
+      additions: placed.reduce((total, hunk) => total + hunk.lines.filter(line => line.type === 'add').length, 0),
+      deletions: placed.reduce((total, hunk) => total + hunk.lines.filter(line => line.type === 'delete').length, 0),
+    });
+  }
+
+  if (patched.length === 0) {
+    return { ok: false, error: 'The patch does not add or remove any lines' };
+  }
+
+  return { ok: true, patch: `${rendered.join('\n')}\n`, files: patched };
+}
@@ -0,0 +1,113 @@
+/**
+ * Base LLM Provider
+ * Shared prompt assembly and response handling for all LLM providers
+ */
+
+import type {
+  ChatMessage,
+  CompletionOptions,
+  DeltaHandler,
+  LLMCompletion,
+  LLMProvider,
+  ReviewCallOptions,
+} from '../types/index.ts';
+
+export abstract class BaseLLMProvider implements LLMProvider {
+  abstract readonly name: string;
+  readonly model: string;
+
+  constructor(model: string) {
+    this.model = model;
+  }
+
+  /**
+   * Send chat completion request
+   */
+  abstract chatCompletion(
+    messages: ChatMessage[],
+    options?: CompletionOptions
+  ): Promise<LLMCompletion>;
+
+  /**
+   * Send streaming chat completion request
+   * Calls onDelta for every content chunk and resolves with the full content
+   */
+  abstract chatCompletionStream(
+    messages: ChatMessage[],
+    onDelta: DeltaHandler,
+    options?: CompletionOptions
+  ): Promise<LLMCompletion>;
+
+  /**
+   * Review code using AI
+   * Streams the completion when options.onDelta is provided
+   */
+  async reviewCode(
+    systemPrompt: string,
+    userPrompt: string,
+    previousMessages: ChatMessage[] = [],
+    options: ReviewCallOptions = {}
+  ): Promise<LLMCompletion> {
+    const messages: ChatMessage[] = [
+      { role: 'system', content: systemPrompt },
+      ...previousMessages,
+      { role: 'user', content: userPrompt },
+    ];
+
+    const completionOptions: CompletionOptions = {
+      model: options.model,
+      maxTokens: options.maxTokens || 1500,
+      jsonMode: options.jsonMode,
+      temperature: 0.3,
+      topP: 0.9,
+    };
+
+    if (options.onDelta) {
+      return await this.chatCompletionStream(messages, options.onDelta, completionOptions);
+    }
+
+    return await this.chatCompletion(messages, completionOptions);
+  }
+
+  /**
+   * Sanitize AI response to prevent XSS
+   */
+  sanitizeResponse(response: string): string {
+    return response
+      .replace(/<script\b[^<]*(?:(?!<\/script>)<[^<]*)*<\/script>/gi, '')
+      .replace(/<iframe\b[^<]*(?:(?!<\/iframe>)<[^<]*)*<\/iframe>/gi, '')
+      .replace(/on\w+="[^"]*"/gi, '')
+      .trim();
+  }
+
+  /**
+   * Format review for display
+   */
+  formatReview(review: string): string {
+    // Convert markdown-style code blocks to HTML-safe format
+    const formatted = review
+      .replace(/```(\w+)?\n([\s\S]*?)```/g, (_, lang, code) => {
+        return `<pre><code class="language-${lang || 'text'}">${this.escapeHtml(code.trim())}</code></pre>`;
+      })
+      .replace(/`([^`]+)`/g, '<code>$1</code>')
+      .replace(/\*\*([^*]+)\*\*/g, '<strong>$1</strong>')
+      .replace(/\*([^*]+)\*/g, '<em>$1</em>');
+
+    return this.sanitizeResponse(formatted);
+  }
+
+  /**
+   * Escape HTML to prevent XSS
+   */
+  private escapeHtml(text: string): string {
+    const map: { [key: string]: string } = {
+      '&': '&amp;',
+      '<': '&lt;',
+      '>': '&gt;',
+      '"': '&quot;',
+      "'": '&#039;',
+    };
+
+    return text.replace(/[&<>"']/g, char => map[char]);
+  }
+}
@@ -0,0 +1,201 @@
+/**
+ * Resilient LLM Provider
+ * Wraps a provider with per-call timeouts, retries and a circuit breaker
+ */
+
+import type {
+  ChatMessage,
+  CompletionOptions,
+  DeltaHandler,
+  LLMCompletion,
+  EnvConfig,
+  LLMProvider,
+} from '../types/index.ts';
+import {
+  AIServiceError,
+  AITimeoutError,
+  CircuitOpenError,
+  retryWithBackoff,
+} from '../utils/errors.ts';
+import { getCircuitBreaker } from '../utils/circuitBreaker.ts';
+import { logger } from '../utils/logger.ts';
+import { BaseLLMProvider } from './provider.ts';
+
+// Never wait longer than this between attempts, whatever Retry-After says
+const MAX_RETRY_DELAY_MS = 20000;
+const INITIAL_RETRY_DELAY_MS = 500;
+
+/**
+ * Check whether an error is a transient upstream failure
+ * Rate limits, timeouts, 5xx responses and network errors qualify. Anything else, such as
+ * an empty or unparseable response or a bug in our own code, fails the same way on every
+ * attempt, so it is neither retried nor counted against the circuit breaker
+ */
+export function isTransientError(error: unknown): boolean {
+  if (error instanceof CircuitOpenError) {
+    return false;
+  }
+
+  if (error instanceof AITimeoutError) {
+    return true;
+  }
+
+  if (!(error instanceof AIServiceError)) {
+    return false;
+  }
+
+  // Providers flag failures to reach the API or to read its response
+  if (error.details?.network === true) {
+    return true;
+  }
+
+  const status = error.details?.status;
+  return typeof status === 'number' && (status === 408 || status === 429 || status >= 500);
+}
+
+/**
+ * Check whether an error is a rate limit response
+ */
+export function isRateLimitError(error: unknown): boolean {
+  return error instanceof AIServiceError && error.details?.status === 429;
+}
+
+export class ResilientLLMProvider extends BaseLLMProvider {
+  readonly name: string;
+  private inner: LLMProvider;
+  private timeoutMs: number;
+  private maxRetries: number;
+  private breakerThreshold: number;
+  private breakerResetSeconds: number;
+
+  constructor(inner: LLMProvider, config: EnvConfig) {
+    super(inner.model);
+    this.name = inner.name;
+    this.inner = inner;
+    this.timeoutMs = parseInt(config.LLM_TIMEOUT_MS, 10);
+    this.maxRetries = parseInt(config.LLM_MAX_RETRIES, 10);
+    this.breakerThreshold = parseInt(config.CIRCUIT_BREAKER_THRESHOLD, 10);
+    this.breakerResetSeconds = parseInt(config.CIRCUIT_BREAKER_RESET_SECONDS, 10);
+  }
+
+  /**
+   * Send chat completion request with timeout, retries and circuit breaker
+   */
+  async chatCompletion(
+    messages: ChatMessage[],
+    options?: CompletionOptions
+  ): Promise<LLMCompletion> {
+    return this.execute(options, (signal) =>
+      this.inner.chatCompletion(messages, { ...options, signal })
+    );
+  }
+
+  /**
+   * Send streaming chat completion request with timeout, retries and circuit breaker
+   * The timeout applies to the gap between chunks, and a call is only retried
+   * while nothing has been streamed to the client yet
+   */
+  async chatCompletionStream(
+    messages: ChatMessage[],
+    onDelta: DeltaHandler,
+    options?: CompletionOptions
+  ): Promise<LLMCompletion> {
+    let streamed = false;
+
+    return this.execute(
+      options,
+      (signal, resetTimer) =>
+        this.inner.chatCompletionStream(
+          messages,
+          async (delta) => {
+            streamed = true;
+            resetTimer();
+            await onDelta(delta);
+          },
+          { ...options, signal }
+        ),
+      () => !streamed
+    );
+  }
+
+  /**
+   * Run a provider call through the breaker and the retry loop
+   * Rate limits are not retried when the caller said it has another model to try
+   */
+  private async execute<T>(
+    options: CompletionOptions | undefined,
+    call: (signal: AbortSignal, resetTimer: () => void) => Promise<T>,
+    canRetry: () => boolean = () => true
+  ): Promise<T> {
+    const model = options?.model || this.model;
+    const breaker = getCircuitBreaker(
+      `${this.name}:${model}`,
+      this.breakerThreshold,
+      this.breakerResetSeconds
+    );
+
+    return retryWithBackoff(
+      () => breaker.execute(() => this.withTimeout(call), isTransientError),
+      this.maxRetries + 1,
+      INITIAL_RETRY_DELAY_MS,
+      'AI request failed after retries',
+      {
+        shouldRetry: (error, attempt) => {
+          const retry =
+            canRetry() &&
+            isTransientError(error) &&
+            !(options?.retryRateLimits === false && isRateLimitError(error));
+          if (retry && attempt < this.maxRetries) {
+            logger.warn('Retrying AI request', {
+              provider: this.name,
+              model,
+              attempt: attempt + 1,
+              error: (error as Error).message,
+            });
+          }
+          return retry;
+        },
+        getDelay: (error) =>
+          error instanceof AIServiceError ? error.details?.retryAfterMs : undefined,
+        maxDelay: MAX_RETRY_DELAY_MS,
+        rethrowLastError: true,
+      }
+    );
+  }
+
+  /**
+   * Abort the call if it runs longer than the configured timeout
+   */
+  private async withTimeout<T>(
+    call: (signal: AbortSignal, resetTimer: () => void) => Promise<T>
+  ): Promise<T> {
+    const controller = new AbortController();
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const resetTimer = () => {
+      clearTimeout(timer);
+      timer = setTimeout(() => controller.abort(), this.timeoutMs);
+    };
+
+    resetTimer();
+
+    try {
+      return await call(controller.signal, resetTimer);
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new AITimeoutError('AI request timed out', { timeoutMs: this.timeoutMs });
+      }
+      throw error;
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+}
+
+// Export factory function
+export function createResilientLLMProvider(
+  inner: LLMProvider,
+  config: EnvConfig
+): ResilientLLMProvider {
+  return new ResilientLLMProvider(inner, config);
+}
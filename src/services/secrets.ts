@@ -0,0 +1,296 @@
+/**
+ * Secret Scanner
+ * Detects credentials in submitted code and redacts them before prompting and storage
+ */
+
+import type { ReviewFinding } from '../types/index.ts';
+import { logger } from '../utils/logger.ts';
+
+export interface SecretRule {
+  id: string;
+  description: string;
+  // Flags g and d are added automatically
+  pattern: RegExp;
+  // Capture group holding the secret; the whole match by default
+  group?: number;
+  // Extra check on the captured value, e.g. an entropy threshold
+  validate?: (value: string) => boolean;
+}
+
+export interface DetectedSecret {
+  rule_id: string;
+  description: string;
+  placeholder: string;
+  line: number;
+}
+
+// A redacted secret located in a file, diff or free text
+export interface LocatedSecret {
+  description: string;
+  placeholder: string;
+  line: number | null;
+  file?: string;
+}
+
+export interface RedactionResult {
+  text: string;
+  secrets: DetectedSecret[];
+}
+
+/**
+ * Shannon entropy in bits per character
+ */
+export function shannonEntropy(value: string): number {
+  if (!value) return 0;
+
+  const counts = new Map<string, number>();
+  for (const char of value) {
+    counts.set(char, (counts.get(char) || 0) + 1);
+  }
+
+  let entropy = 0;
+  for (const count of counts.values()) {
+    const p = count / value.length;
+    entropy -= p * Math.log2(p);
+  }
+
+  return entropy;
+}
+
+// Values that are obviously examples or references rather than real secrets
+const PLACEHOLDER_VALUE = /^(\$\{?|<|\{\{|%\()|process\.env|os\.environ|getenv|changeme|example|your[_-]|xxxx|\*{4}|REDACTED/i;
+
+function isLikelySecret(value: string, minEntropy: number): boolean {
+  return !PLACEHOLDER_VALUE.test(value) && shannonEntropy(value) >= minEntropy;
+}
+
+/**
+ * Built-in rules, most specific first; earlier rules win when matches overlap
+ */
+export const DEFAULT_SECRET_RULES: SecretRule[] = [
+  {
+    id: 'private-key',
+    description: 'private key',
+    pattern: /-----BEGIN (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----[\s\S]*?-----END (?:[A-Z0-9]+ )*PRIVATE KEY(?: BLOCK)?-----/,
+  },
+  {
+    id: 'aws-access-key-id',
+    description: 'AWS access key ID',
+    pattern: /\b(?:AKIA|ASIA|ABIA|ACCA)[0-9A-Z]{16}\b/,
+  },
+  {
+    id: 'aws-secret-access-key',
+    description: 'AWS secret access key',
+    pattern: /aws_?secret_?access_?key["']?\s*[:=]\s*["']?([A-Za-z0-9/+=]{40})(?![A-Za-z0-9/+=])/i,
+    group: 1,
+  },
+  {
+    id: 'github-token',
+    description: 'GitHub token',
+    pattern: /\b(?:gh[pousr]_[A-Za-z0-9]{36,255}|github_pat_[A-Za-z0-9_]{22,255})\b/,
+  },
+  {
+    id: 'gitlab-token',
+    description: 'GitLab token',
+    pattern: /\bglpat-[A-Za-z0-9_-]{20,}\b/,
+  },
+  {
+    id: 'slack-token',
+    description: 'Slack token',
+    pattern: /\bxox[abposr]-[A-Za-z0-9-]{10,}\b/,
+  },
+  {
+    id: 'stripe-key',
+    description: 'Stripe API key',
+    pattern: /\b(?:sk|rk)_(?:live|test)_[A-Za-z0-9]{16,}\b/,
+  },
+  {
+    id: 'google-api-key',
+    description: 'Google API key',
+    pattern: /\bAIza[0-9A-Za-z_-]{35}\b/,
+  },
+  {
+    id: 'groq-api-key',
+    description: 'Groq API key',
+    pattern: /\bgsk_[A-Za-z0-9]{40,}\b/,
+  },
+  {
+    id: 'sk-api-key',
+    description: 'API secret key',
+    pattern: /\bsk-(?:[a-z]+-)?[A-Za-z0-9_-]{20,}\b/,
+  },
+  {
+    id: 'jwt',
+    description: 'JSON Web Token',
+    pattern: /\beyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,}\b/,
+  },
+  {
+    id: 'connection-string-password',
+    description: 'password in a connection string',
+    pattern: /\b[a-z][a-z0-9+.-]*:\/\/[^\s:@/"'`]*:([^\s@/"'`]+)@[^\s"'`]+/i,
+    group: 1,
+    validate: value => !PLACEHOLDER_VALUE.test(value),
+  },
+  {
+    id: 'secret-assignment',
+    description: 'credential assignment',
+    pattern: /[A-Za-z0-9_.-]*(?:password|passwd|pwd|secret|token|api[_-]?key|access[_-]?key|auth[_-]?key|private[_-]?key)[A-Za-z0-9_.-]*["']?\s*[:=]\s*["'`]([^"'`\s]{8,})["'`]/i,
+    group: 1,
+    validate: value => isLikelySecret(value, 3) && (/[0-9]/.test(value) || shannonEntropy(value) >= 4),
+  },
+  {
+    id: 'high-entropy-string',
+    description: 'high-entropy string that looks like a credential',
+    pattern: /["'`]([A-Za-z0-9+/=_-]{32,})["'`]/,
+    group: 1,
+    // Subresource integrity hashes (sha512-...) are public checksums
+    validate: value =>
+      !/^sha(1|256|384|512)-/.test(value) &&
+      /[a-z]/.test(value) && /[A-Z]/.test(value) && /[0-9]/.test(value) && isLikelySecret(value, 4.5),
+  },
+];
+
+/**
+ * FNV-1a hash, used to derive placeholders that stay the same for the same secret
+ */
+function fingerprint(value: string): string {
+  let hash = 0x811c9dc5;
+
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export class SecretScanner {
+  private rules: SecretRule[];
+
+  constructor(rules: SecretRule[] = DEFAULT_SECRET_RULES) {
+    this.rules = [...rules];
+  }
+
+  /**
+   * Add a detection rule; it runs after the existing rules
+   */
+  addRule(rule: SecretRule): void {
+    this.rules.push(rule);
+  }
+
+  /**
+   * Get the active rules
+   */
+  getRules(): SecretRule[] {
+    return [...this.rules];
+  }
+
+  /**
+   * Replace every detected secret with a placeholder derived from its value
+   * Multi-line secrets keep their line breaks so line numbers stay correct
+   */
+  redact(text: string): RedactionResult {
+    const matches: { rule: SecretRule; start: number; end: number; value: string }[] = [];
+
+    for (const rule of this.rules) {
+      const flags = Array.from(new Set(`${rule.pattern.flags}gd`)).join('');
+      const pattern = new RegExp(rule.pattern.source, flags);
+
+      for (const match of text.matchAll(pattern)) {
+        const group = rule.group ?? 0;
+        const value = match[group];
+        const range = match.indices?.[group];
+
+        if (!value || !range || (rule.validate && !rule.validate(value))) {
+          continue;
+        }
+
+        const [start, end] = range;
+
+        // Earlier rules are more specific, so they keep overlapping ranges
+        if (matches.some(existing => start < existing.end && end > existing.start)) {
+          continue;
+        }
+
+        matches.push({ rule, start, end, value });
+      }
+    }
+
+    if (matches.length === 0) {
+      return { text, secrets: [] };
+    }
+
+    matches.sort((a, b) => a.start - b.start);
+
+    const secrets: DetectedSecret[] = [];
+    let redacted = '';
+    let cursor = 0;
+    let line = 1;
+
+    for (const match of matches) {
+      const before = text.slice(cursor, match.start);
+      line += before.split('\n').length - 1;
+
+      const placeholder = `[REDACTED:${match.rule.id}:${fingerprint(match.value)}]`;
+      const lineBreaks = '\n'.repeat(match.value.split('\n').length - 1);
+
+      redacted += before + placeholder + lineBreaks;
+      secrets.push({
+        rule_id: match.rule.id,
+        description: match.rule.description,
+        placeholder,
+        line,
+      });
+
+      line += lineBreaks.length;
+      cursor = match.end;
+    }
+
+    redacted += text.slice(cursor);
+
+    return { text: redacted, secrets };
+  }
+}
+
+/**
+ * Report redacted secrets as critical security findings
+ */
+export function secretFindings(secrets: LocatedSecret[]): ReviewFinding[] {
+  return secrets.map((secret, index) => {
+    const finding: ReviewFinding = {
+      id: `S${index + 1}`,
+      category: 'security',
+      severity: 'critical',
+      line_start: secret.line,
+      line_end: secret.line,
+      message: `Hardcoded ${secret.description} detected. It was redacted as ${secret.placeholder} before the review.`,
+      suggested_fix: 'Remove the secret from the code, rotate it, and load it from an environment variable or a secret manager.',
+    };
+
+    if (secret.file) {
+      finding.file = secret.file;
+    }
+
+    return finding;
+  });
+}
+
+/**
+ * Markdown notice listing redacted secrets, appended to the review
+ */
+export function renderSecretsMarkdown(findings: ReviewFinding[]): string {
+  const items = findings.map(finding => {
+    const location = [finding.file, finding.line_start !== null ? `line ${finding.line_start}` : '']
+      .filter(Boolean)
+      .join(', ');
+    return `- **[CRITICAL] ${finding.id}**${location ? ` (${location})` : ''}: ${finding.message}`;
+  });
+
+  return `**Secrets Detected**:\n${items.join('\n')}`;
+}
+
+// Export factory function
+export function createSecretScanner(rules: SecretRule[] = DEFAULT_SECRET_RULES): SecretScanner {
+  logger.debug('Secret scanner initialized', { ruleCount: rules.length });
+  return new SecretScanner(rules);
+}
@@ -3,101 +3,181 @@
  * Handles chat sessions with KV storage
  */
 
-import type { ChatSession, ChatMessage, EnvConfig } from '../types/index.ts';
-import { SessionError } from '../utils/errors.ts';
+import type {
+  ActionOptions,
+  ActionResult,
+  ChatMessage,
+  ChatMode,
+  ChatSession,
+  CodeReviewResult,
+  FixOptions,
+  FixResult,
+  DeltaHandler,
+  DiffFile,
+  FollowUpAction,
+  LanguageDetection,
+  LLMCompletion,
+  LLMProvider,
+  ModeClassification,
+  ReviewFile,
+  ReviewFinding,
+  ReviewOptions,
+  ReviewedCode,
+  SessionListQuery,
+  SessionPage,
+  Severity,
+  SourceChange,
+} from '../types/index.ts';
+import {
+  ConflictError,
+  ForbiddenError,
+  PatchError,
+  PreconditionFailedError,
+  SessionError,
+  ValidationError,
+} from '../utils/errors.ts';
 import { logger } from '../utils/logger.ts';
-import { safeJsonParse } from '../utils/errors.ts';
-import type { GroqService } from './groq.ts';
 import type { ContextService } from './context.ts';
+import { PROMPT_VERSION } from './context.ts';
+import type { ReviewCache } from './cache.ts';
+import type { ChunkedReviewService } from './chunkedReview.ts';
+import type { GuidelineService, PromptGuidelines } from './guidelines.ts';
+import { MemorySessionStore, decodeSessionCursor } from './sessionStore.ts';
+import type { SessionStore } from './sessionStore.ts';
+import { buildHistory } from './history.ts';
+import { resolveMode } from './intent.ts';
+import { requestPatch } from './fix.ts';
+import { SNIPPET_PATH } from './patch.ts';
+import {
+  SEVERITIES,
+  findingSuggestions,
+  mapFindingsToFiles,
+  overallSeverity,
+  renderFindingsMarkdown,
+} from './findings.ts';
+import type { StructuredReview } from './findings.ts';
+import { requestStructuredReview } from './structured.ts';
+import { getReviewableFiles, mapFindingsToDiff, parseUnifiedDiff, redactDiffFiles } from './diff.ts';
+import { renderSecretsMarkdown, secretFindings } from './secrets.ts';
+import type { LocatedSecret } from './secrets.ts';
+import {
+  checkReviewConsistency,
+  detectInjection,
+  injectionFindings,
+  renderInjectionMarkdown,
+  runStaticChecks,
+} from './injection.ts';
+import type { ScanTarget } from './injection.ts';
+import { getModelInfo } from '../config/models.ts';
+import { getReviewProfile } from '../config/profiles.ts';
+
+// Upper bound on stored messages per session
+const MAX_STORED_MESSAGES = 50;
+
+// Attempts to save a turn when other requests keep updating the session first
+const MAX_UPDATE_ATTEMPTS = 3;
+
+// Longest session title taken from the first input
+const MAX_TITLE_LENGTH = 80;
 
 export class SessionService {
-  private kv: KVNamespace | null;
+  private store: SessionStore;
   private contextService: ContextService;
-  private groqService: GroqService;
+  private llmProvider: LLMProvider;
+  private reviewCache: ReviewCache | null;
+  private chunkedReviewService: ChunkedReviewService | null;
+  private guidelineService: GuidelineService | null;
   private sessionTTL: number = 3600; // 1 hour in seconds
 
   constructor(
     contextService: ContextService,
-    groqService: GroqService,
-    kv?: KVNamespace
+    llmProvider: LLMProvider,
+    store?: SessionStore,
+    reviewCache?: ReviewCache,
+    chunkedReviewService?: ChunkedReviewService,
+    guidelineService?: GuidelineService
   ) {
-    this.kv = kv || null;
+    this.store = store || new MemorySessionStore();
     this.contextService = contextService;
-    this.groqService = groqService;
+    this.llmProvider = llmProvider;
+    this.reviewCache = reviewCache || null;
+    this.chunkedReviewService = chunkedReviewService || null;
+    this.guidelineService = guidelineService || null;
+  }
+
+  /**
+   * Name of the backend sessions are stored in
+   */
+  getStoreName(): string {
+    return this.store.name;
   }
 
   /**
    * Create a new chat session
    */
-  async createSession(): Promise<ChatSession> {
+  async createSession(owner?: string): Promise<ChatSession> {
     const sessionId = crypto.randomUUID();
     const now = new Date().toISOString();
     const expiresAt = new Date(Date.now() + this.sessionTTL * 1000).toISOString();
 
     const session: ChatSession = {
       id: sessionId,
+      version: 1,
+      owner,
       messages: [],
       created_at: now,
       updated_at: now,
       expires_at: expiresAt,
     };
 
-    // Store in KV if available
-    if (this.kv) {
-      await this.kv.put(
-        `session:${sessionId}`,
-        JSON.stringify(session),
-        { expirationTtl: this.sessionTTL }
-      );
-    }
+    await this.store.put(session, this.sessionTTL);
 
-    logger.info('Session created', { sessionId });
+    logger.info('Session created', { sessionId, owner });
     return session;
   }
 
   /**
    * Get session by ID
+   * With an owner, another owner's session is refused; sessions from before ownership have none
    */
-  async getSession(sessionId: string): Promise<ChatSession> {
-    if (!this.kv) {
-      throw new SessionError('Session storage not available');
-    }
+  async getSession(sessionId: string, owner?: string): Promise<ChatSession> {
+    const session = await this.store.get(sessionId);
 
-    const sessionData = await this.kv.get(`session:${sessionId}`, 'text');
-
-    if (!sessionData) {
+    if (!session) {
       throw new SessionError('Session not found or expired', { sessionId });
     }
 
-    const session = safeJsonParse<ChatSession>(sessionData, {
-      id: sessionId,
-      messages: [],
-      created_at: new Date().toISOString(),
-      updated_at: new Date().toISOString(),
-      expires_at: new Date().toISOString(),
-    });
+    if (owner !== undefined && session.owner && session.owner !== owner) {
+      throw new ForbiddenError('This session belongs to another owner', { sessionId });
+    }
 
+    session.version = session.version ?? 0;
     return session;
   }
 
   /**
    * Update session
+   * Saves only if the stored session is still at the version that was read, and bumps it;
+   * throws ConflictError when another request wrote it first
    */
   async updateSession(session: ChatSession): Promise<void> {
-    if (!this.kv) {
-      logger.warn('KV not available, session not persisted');
-      return;
-    }
-
-    session.updated_at = new Date().toISOString();
+    const expectedVersion = session.version;
+    const updated: ChatSession = {
+      ...session,
+      version: expectedVersion + 1,
+      updated_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + this.sessionTTL * 1000).toISOString(),
+    };
 
-    await this.kv.put(
-      `session:${session.id}`,
-      JSON.stringify(session),
-      { expirationTtl: this.sessionTTL }
-    );
+    if (!(await this.store.compareAndSet(updated, expectedVersion, this.sessionTTL))) {
+      throw new ConflictError('Session was modified by another request', {
+        sessionId: session.id,
+        expectedVersion,
+      });
+    }
 
-    logger.debug('Session updated', { sessionId: session.id });
+    Object.assign(session, updated);
+    logger.debug('Session updated', { sessionId: session.id, version: session.version });
   }
 
   /**
@@ -117,143 +197,1062 @@ export class SessionService {
       session = await this.createSession();
     }
 
-    session.messages.push({ role, content });
+    return this.appendTurn(session, [{ role, content }]);
+  }
 
-    // Keep only last 10 messages to prevent context overflow
-    if (session.messages.length > 10) {
-      session.messages = session.messages.slice(-10);
-    }
+  /**
+   * Append a turn's messages to a session and save it
+   * When another request saved the session since it was read, the turn is re-applied
+   * to the latest version so neither request's messages are lost
+   */
+  private async appendTurn(
+    session: ChatSession,
+    messages: ChatMessage[],
+    lastReview?: ReviewedCode
+  ): Promise<ChatSession> {
+    let base = session;
 
-    await this.updateSession(session);
+    for (let attempt = 1; ; attempt++) {
+      const updated: ChatSession = {
+        ...base,
+        title: base.title || session.title,
+        messages: [...base.messages, ...messages],
+        last_review: lastReview || base.last_review,
+      };
+      this.trimStoredMessages(updated);
 
-    return session;
+      try {
+        await this.updateSession(updated);
+        return updated;
+      } catch (error) {
+        if (!(error instanceof ConflictError) || attempt >= MAX_UPDATE_ATTEMPTS) {
+          throw error;
+        }
+
+        logger.warn('Session changed during the turn, merging onto the latest version', {
+          sessionId: session.id,
+          attempt,
+        });
+        base = await this.getSession(session.id);
+      }
+    }
   }
 
   /**
    * Process code review message
+   * When onDelta is provided the AI response is streamed chunk by chunk
+   * With inputType 'diff' the input is a unified diff and only its changed lines are reviewed
+   * An array of files is reviewed together, with each file's language inferred from its path
+   * Code input is reviewed, explained or answered as chat according to options.mode
    */
   async processCodeReview(
     sessionId: string,
-    code: string,
-    language?: string,
-    userContext?: string
-  ): Promise<{ review: string; severity: 'info' | 'warning' | 'critical'; sessionId: string }> {
-    // Validate and sanitize code
-    const sanitizedCode = this.contextService.sanitizeCode(code);
+    input: string | ReviewFile[],
+    options: ReviewOptions = {},
+    onDelta?: DeltaHandler
+  ): Promise<CodeReviewResult> {
+    const inputType = Array.isArray(input) ? 'files' : options.inputType || 'code';
+    const profile = getReviewProfile(options.profile);
+
+    if (!profile) {
+      throw new ValidationError('Unknown review profile', { profile: options.profile });
+    }
+
+    if (inputType !== 'code' && options.mode && options.mode !== 'auto' && options.mode !== 'review') {
+      throw new ValidationError('Diffs and files can only be reviewed', { mode: options.mode });
+    }
+
+    // Secrets are redacted before anything reaches the model or session storage
+    const secrets: LocatedSecret[] = [];
+    let userContext = options.context;
+
+    if (userContext) {
+      const redaction = this.contextService.redactSecrets(userContext);
+      userContext = redaction.text;
+      secrets.push(...redaction.secrets.map(secret => ({ ...secret, line: null })));
+    }
+
+    let diffFiles: DiffFile[] | null = null;
+    let reviewFiles: ReviewFile[] | null = null;
+    let sanitizedCode: string;
+    const sourceChanges: Record<string, SourceChange[]> = {};
+
+    if (Array.isArray(input)) {
+      reviewFiles = input.map(file => {
+        const sanitized = this.contextService.sanitizeCode(file.content);
+        const redaction = this.contextService.redactSecrets(sanitized);
+        secrets.push(...redaction.secrets.map(secret => ({ ...secret, file: file.path })));
+        this.recordSourceChanges(sourceChanges, file.path, file.content, sanitized, redaction.secrets.length > 0);
+
+        return {
+          path: file.path,
+          content: redaction.text,
+          language: file.language,
+        };
+      });
+
+      sanitizedCode = JSON.stringify(reviewFiles);
+    } else {
+      // Parse diffs before sanitizing so hunk line counts stay intact
+      if (inputType === 'diff') {
+        const parsed = getReviewableFiles(parseUnifiedDiff(input));
+
+        if (parsed.length === 0) {
+          throw new ValidationError('Diff does not contain any added or changed lines');
+        }
+
+        const redaction = redactDiffFiles(parsed, text => this.contextService.redactSecrets(text));
+        diffFiles = redaction.files;
+        secrets.push(...redaction.secrets);
+      }
+
+      // Validate and sanitize code
+      const sanitized = this.contextService.sanitizeCode(input);
+      const redaction = this.contextService.redactSecrets(sanitized);
+      sanitizedCode = redaction.text;
 
-    // Get or create session
+      if (!diffFiles) {
+        secrets.push(...redaction.secrets);
+        this.recordSourceChanges(sourceChanges, SNIPPET_PATH, input, sanitized, redaction.secrets.length > 0);
+      }
+    }
+
+    if (secrets.length > 0) {
+      logger.warn('Secrets redacted from review input', {
+        sessionId,
+        count: secrets.length,
+        types: Array.from(new Set(secrets.map(secret => secret.description))),
+      });
+    }
+
+    const inputLength = reviewFiles
+      ? reviewFiles.reduce((total, file) => total + file.content.length, 0)
+      : sanitizedCode.length;
+
+    // Get or create session; another owner's session is never reused
     let session: ChatSession;
     try {
-      session = await this.getSession(sessionId);
-    } catch {
-      session = await this.createSession();
+      session = await this.getSession(sessionId, options.owner);
+    } catch (error) {
+      if (error instanceof ForbiddenError) {
+        throw error;
+      }
+
+      session = await this.createSession(options.owner);
       sessionId = session.id;
     }
 
-    // Detect if this is code or regular conversation
-    const isCode = this.contextService.isCode(sanitizedCode);
+    if (!session.title) {
+      session.title = this.buildTitle(sanitizedCode, reviewFiles, diffFiles);
+    }
+
+    // Review, explain or chat, classified with the conversation so far when not chosen
+    const mode: ModeClassification = inputType === 'code'
+      ? resolveMode(options.mode, sanitizedCode, session.messages)
+      : { mode: 'review', source: options.mode === 'review' ? 'user' : 'auto', reason: inputType };
+    const isCode = mode.mode === 'review';
+
+    logger.info('Message mode resolved', { sessionId, ...mode });
+
+    // Code too large for one request is reviewed in chunks and merged
+    const chunked = inputType === 'code'
+      && !!this.chunkedReviewService?.needsChunking(sanitizedCode);
+
+    if (chunked && !isCode) {
+      throw new ValidationError('Message is too long; only code reviews can be split into chunks');
+    }
+
+    const structured = diffFiles !== null || chunked || !!options.structured;
+
+    // Files, the added lines of a diff, or the code; scanned for language and injection
+    const scanTargets = mode.mode !== 'chat' ? this.buildScanTargets(sanitizedCode, reviewFiles, diffFiles) : [];
+    const detection = this.detectReviewLanguage(scanTargets, reviewFiles, options.language);
+    const language = detection.language || undefined;
+    const rulePacks = isCode ? this.contextService.describeRulePacks(language) : [];
+
+    // House rules of the referenced project, cut to the prompt budget
+    let guidelines: PromptGuidelines | null = null;
+
+    if (options.projectId) {
+      if (!this.guidelineService) {
+        throw new ValidationError('Project guidelines are not available');
+      }
+
+      guidelines = await this.guidelineService.getPromptGuidelines(options.projectId);
+    }
+
+    const projectGuidelines = guidelines?.text;
+
+    // User prompt for the code review paths, also stored for cached reviews
+    let reviewPrompt = '';
+
+    if (diffFiles) {
+      reviewPrompt = this.buildDiffPrompt(diffFiles, userContext);
+    } else if (reviewFiles) {
+      reviewPrompt = this.contextService.buildFilesUserPrompt(reviewFiles, userContext, structured);
+    } else if (isCode) {
+      reviewPrompt = this.contextService.buildUserPrompt(sanitizedCode, userContext, structured);
+    }
 
     let systemPrompt: string;
     let userPrompt: string;
     let review: string;
-    let severity: 'info' | 'warning' | 'critical';
+    let severity: Severity;
+    let completion: LLMCompletion;
+    let findings: ReviewFinding[] = [];
+    let suggestions: string[] = [];
+
+    // Serve repeated code reviews from the cache
+    let cacheKey: string | null = null;
+
+    if (isCode && this.reviewCache?.isEnabled()) {
+      cacheKey = await this.reviewCache.buildKey({
+        code: sanitizedCode,
+        inputType,
+        language,
+        context: userContext,
+        model: options.model || this.llmProvider.model,
+        structured,
+        promptVersion: PROMPT_VERSION,
+        rulePacks,
+        profile: profile.id,
+        guidelines: projectGuidelines,
+      });
+
+      const cached = options.forceRefresh ? null : await this.reviewCache.get(cacheKey);
+
+      if (cached) {
+        logger.info('Code review served from cache', { sessionId, model: cached.model });
+
+        if (onDelta) {
+          await onDelta(cached.review);
+        }
+
+        await this.appendTurn(
+          session,
+          [
+            { role: 'user', content: reviewPrompt },
+            this.buildReviewMessage(cached.review, mode.mode, cached.findings, cached.rule_packs),
+          ],
+          this.buildReviewedCode(
+            inputType,
+            sanitizedCode,
+            reviewFiles,
+            language,
+            cached.review,
+            cached.findings,
+            cached.structured === true,
+            sourceChanges
+          )
+        );
+
+        return {
+          review: cached.review,
+          severity: cached.severity,
+          findings: cached.findings,
+          suggestions: cached.suggestions,
+          sessionId,
+          model: cached.model,
+          provider: cached.provider,
+          cached: true,
+          language: detection,
+          rulePacks: cached.rule_packs,
+          profile: profile.id,
+          projectId: guidelines?.projectId ?? null,
+          mode,
+          structured: cached.structured === true,
+        };
+      }
+    }
+
+    // Instructions aimed at the reviewer and risky constructs, found before the model runs
+    const injectionHits = detectInjection(scanTargets);
+    const staticHits = runStaticChecks(scanTargets);
+
+    if (injectionHits.length > 0) {
+      logger.warn('Possible prompt injection in review input', {
+        sessionId,
+        count: injectionHits.length,
+        rules: Array.from(new Set(injectionHits.map(hit => hit.rule_id))),
+      });
+    }
+
+    // Whether findings came from a valid structured response
+    let structuredFindings = false;
 
     // Get previous conversation (exclude system messages)
     const previousMessages = session.messages.filter(msg => msg.role !== 'system');
+    const modelInfo = getModelInfo(
+      options.model || this.llmProvider.model,
+      this.llmProvider.name
+    );
 
-    if (isCode) {
+    if (diffFiles) {
+      // Diff review - structured findings mapped back to files and new-file lines
+      systemPrompt = this.contextService.buildDiffSystemPrompt(language, profile, projectGuidelines);
+      userPrompt = reviewPrompt;
+
+      const result = await requestStructuredReview(this.llmProvider, this.contextService, {
+        systemPrompt,
+        userPrompt,
+        history: previousMessages,
+        modelInfo,
+        model: options.model,
+      });
+
+      completion = result.completion;
+      let discarded = 0;
+
+      if (result.structured) {
+        const structured = this.sanitizeStructured(result.structured);
+        const mapped = mapFindingsToDiff(structured.findings, diffFiles);
+        findings = mapped.findings;
+        discarded = mapped.discarded;
+        structuredFindings = true;
+        review = renderFindingsMarkdown({ summary: structured.summary, findings });
+        severity = overallSeverity(findings);
+        suggestions = findingSuggestions(findings);
+      } else {
+        review = this.llmProvider.sanitizeResponse(completion.content);
+        severity = this.contextService.extractSeverity(review);
+        suggestions = this.contextService.extractSuggestions(review);
+      }
+
+      // Findings are placed on diff lines only after parsing, so the review is sent whole
+      if (onDelta) {
+        await onDelta(review);
+      }
+
+      logger.info('Diff review completed', {
+        sessionId,
+        model: completion.model,
+        fileCount: diffFiles.length,
+        severity,
+        findingCount: findings.length,
+        discardedFindings: discarded,
+        valid: !!result.structured,
+      });
+    } else if (chunked) {
+      // Chunked review - map over chunks concurrently, then merge
+      userPrompt = reviewPrompt;
+
+      const result = await this.chunkedReviewService!.review(sanitizedCode, {
+        language,
+        context: userContext,
+        model: options.model,
+        profile,
+        projectGuidelines,
+      });
+
+      const merged = this.sanitizeStructured(result.review);
+
+      completion = result.completion;
+      findings = merged.findings;
+      structuredFindings = true;
+      review = renderFindingsMarkdown(merged);
+      severity = overallSeverity(findings);
+      suggestions = findingSuggestions(findings);
+
+      // Nothing is streamed while chunks are reviewed, so send the merged review at once
+      if (onDelta) {
+        await onDelta(review);
+      }
+
+      logger.info('Chunked code review completed', {
+        sessionId,
+        model: completion.model,
+        codeLength: inputLength,
+        severity,
+        chunkCount: result.chunkCount,
+        failedChunks: result.failedChunks,
+        findingCount: findings.length,
+      });
+    } else if (isCode && structured) {
+      // Structured review - the model returns JSON findings
+      systemPrompt = this.contextService.buildStructuredSystemPrompt(
+        language,
+        reviewFiles !== null,
+        profile,
+        projectGuidelines
+      );
+      userPrompt = reviewPrompt;
+
+      const result = await requestStructuredReview(this.llmProvider, this.contextService, {
+        systemPrompt,
+        userPrompt,
+        history: previousMessages,
+        modelInfo,
+        model: options.model,
+      });
+
+      completion = result.completion;
+
+      if (result.structured) {
+        const structured = this.sanitizeStructured(result.structured);
+        findings = reviewFiles
+          ? mapFindingsToFiles(structured.findings, reviewFiles)
+          : structured.findings;
+        structuredFindings = true;
+        review = renderFindingsMarkdown({ summary: structured.summary, findings });
+        severity = overallSeverity(findings);
+        suggestions = findingSuggestions(findings);
+      } else {
+        // Repair failed - fall back to treating the output as a free-text review
+        review = this.llmProvider.sanitizeResponse(completion.content);
+        severity = this.contextService.extractSeverity(review);
+        suggestions = this.contextService.extractSuggestions(review);
+      }
+
+      // The JSON response is not readable as it arrives, so send the rendered review at once
+      if (onDelta) {
+        await onDelta(review);
+      }
+
+      logger.info('Structured code review completed', {
+        sessionId,
+        model: completion.model,
+        fileCount: reviewFiles?.length,
+        codeLength: inputLength,
+        severity,
+        findingCount: findings.length,
+        repaired: result.repairAttempts > 0,
+        valid: !!result.structured,
+      });
+    } else if (isCode) {
       // This is code - perform code review
-      systemPrompt = this.contextService.buildSystemPrompt(language);
-      userPrompt = this.contextService.buildUserPrompt(sanitizedCode, userContext);
+      systemPrompt = this.contextService.buildSystemPrompt(language, profile, projectGuidelines);
+      userPrompt = reviewPrompt;
+
+      // Fit prior turns into the model's context budget
+      const budget = buildHistory({
+        systemPrompt,
+        history: previousMessages,
+        userPrompt,
+        model: modelInfo,
+      });
 
       // Get AI review
-      const rawReview = await this.groqService.reviewCode(
-        sanitizedCode,
+      completion = await this.llmProvider.reviewCode(
         systemPrompt,
         userPrompt,
-        previousMessages
+        budget.messages,
+        { model: options.model, maxTokens: budget.maxTokens, onDelta }
       );
 
       // Sanitize and format review
-      review = this.groqService.sanitizeResponse(rawReview);
+      review = this.llmProvider.sanitizeResponse(completion.content);
 
-      // Extract severity
+      // Extract severity and suggestions
       severity = this.contextService.extractSeverity(review);
+      suggestions = this.contextService.extractSuggestions(review);
 
       logger.info('Code review completed', {
         sessionId,
-        codeLength: code.length,
+        model: completion.model,
+        fileCount: reviewFiles?.length,
+        codeLength: inputLength,
         severity,
         reviewLength: review.length,
       });
+    } else if (mode.mode === 'explain') {
+      // Explain the code and answer questions about it, without a review
+      systemPrompt = this.contextService.buildExplainSystemPrompt(language);
+      userPrompt = this.contextService.buildExplainUserPrompt(sanitizedCode, userContext);
+
+      // Fit prior turns into the model's context budget
+      const budget = buildHistory({
+        systemPrompt,
+        history: previousMessages,
+        userPrompt,
+        model: modelInfo,
+      });
+
+      completion = await this.llmProvider.reviewCode(
+        systemPrompt,
+        userPrompt,
+        budget.messages,
+        { model: options.model, maxTokens: budget.maxTokens, onDelta }
+      );
+
+      review = this.llmProvider.sanitizeResponse(completion.content);
+
+      // Explanations are not graded
+      severity = 'info';
+
+      logger.info('Code explanation completed', {
+        sessionId,
+        model: completion.model,
+        codeLength: inputLength,
+        responseLength: review.length,
+      });
     } else {
       // This is a regular conversation
       systemPrompt = this.contextService.buildChatSystemPrompt();
       userPrompt = this.contextService.buildChatUserPrompt(sanitizedCode);
 
+      // Fit prior turns into the model's context budget
+      const budget = buildHistory({
+        systemPrompt,
+        history: previousMessages,
+        userPrompt,
+        model: modelInfo,
+      });
+
       // Get AI chat response
-      const rawResponse = await this.groqService.reviewCode(
-        sanitizedCode,
+      completion = await this.llmProvider.reviewCode(
         systemPrompt,
         userPrompt,
-        previousMessages
+        budget.messages,
+        { model: options.model, maxTokens: budget.maxTokens, onDelta }
       );
 
       // Sanitize response
-      review = this.groqService.sanitizeResponse(rawResponse);
+      review = this.llmProvider.sanitizeResponse(completion.content);
 
       // For regular chat, severity is always 'info'
       severity = 'info';
 
       logger.info('Chat response completed', {
         sessionId,
-        messageLength: code.length,
+        messageLength: inputLength,
         responseLength: review.length,
       });
     }
 
+    // Report secrets and injection checks as findings alongside the model's review
+    const notices: string[] = [];
+    const preCheckFindings: ReviewFinding[] = [];
+    const preCheckSuggestions: string[] = [];
+
+    if (secrets.length > 0) {
+      const detected = secretFindings(secrets);
+      notices.push(renderSecretsMarkdown(detected));
+      preCheckFindings.push(...detected);
+      preCheckSuggestions.push('Remove the redacted secrets from the code, rotate them, and load them from environment variables or a secret manager');
+    }
+
+    if (isCode) {
+      const checks = [
+        ...injectionFindings(injectionHits),
+        ...checkReviewConsistency(
+          { severity, findings: structuredFindings ? findings : null },
+          staticHits,
+          injectionHits
+        ),
+      ];
+
+      if (checks.length > 0) {
+        notices.push(renderInjectionMarkdown(checks));
+        preCheckFindings.push(...checks);
+      }
+
+      if (injectionHits.length > 0) {
+        preCheckSuggestions.push('Remove comments and strings addressed to automated reviewers, and review the flagged code manually');
+      }
+    }
+
+    if (notices.length > 0) {
+      const notice = notices.join('\n\n');
+
+      if (onDelta) {
+        await onDelta(`\n\n${notice}`);
+      }
+
+      // Pre-check findings can outrank whatever severity the model declared
+      const preCheckSeverity = overallSeverity(preCheckFindings);
+      if (SEVERITIES.indexOf(preCheckSeverity) > SEVERITIES.indexOf(severity)) {
+        severity = preCheckSeverity;
+      }
+
+      review = `${review.replace(/^\*\*Severity\*\*:\s*\w+/, `**Severity**: ${severity.toUpperCase()}`)}\n\n${notice}`;
+      findings = [...preCheckFindings, ...findings];
+      suggestions = [...preCheckSuggestions, ...suggestions];
+    }
+
     // Update session with new messages
-    session.messages.push({ role: 'user', content: userPrompt });
-    session.messages.push({ role: 'assistant', content: review });
+    await this.appendTurn(
+      session,
+      [
+        { role: 'user', content: userPrompt },
+        this.buildReviewMessage(review, mode.mode, findings, rulePacks),
+      ],
+      isCode
+        ? this.buildReviewedCode(
+            inputType,
+            sanitizedCode,
+            reviewFiles,
+            language,
+            review,
+            findings,
+            structuredFindings,
+            sourceChanges
+          )
+        : undefined
+    );
+
+    if (cacheKey && this.reviewCache) {
+      await this.reviewCache.set(cacheKey, {
+        review,
+        severity,
+        findings,
+        suggestions,
+        model: completion.model,
+        provider: completion.provider,
+        rule_packs: rulePacks,
+        structured: structuredFindings,
+        created_at: new Date().toISOString(),
+      });
+    }
+
+    return {
+      review,
+      severity,
+      findings,
+      suggestions,
+      sessionId,
+      model: completion.model,
+      provider: completion.provider,
+      cached: false,
+      language: detection,
+      rulePacks,
+      profile: profile.id,
+      projectId: guidelines?.projectId ?? null,
+      mode,
+      structured: structuredFindings,
+    };
+  }
+
+  /**
+   * Run a follow-up action on the last reviewed code in a session
+   */
+  async runAction(
+    sessionId: string,
+    action: FollowUpAction,
+    options: ActionOptions = {}
+  ): Promise<ActionResult> {
+    const session = await this.getSession(sessionId, options.owner);
+    const reviewed = session.last_review;
+
+    if (!reviewed) {
+      throw new ValidationError('No reviewed code in this session; review code before running an action', {
+        sessionId,
+        action,
+      });
+    }
+
+    const userContext = options.context
+      ? this.contextService.redactSecrets(options.context).text
+      : undefined;
+
+    const systemPrompt = this.contextService.buildActionSystemPrompt(action, reviewed.language);
+    const userPrompt = this.contextService.buildActionUserPrompt(action, reviewed, userContext);
+
+    // Fit prior turns into the model's context budget
+    const budget = buildHistory({
+      systemPrompt,
+      history: session.messages.filter(msg => msg.role !== 'system'),
+      userPrompt,
+      model: getModelInfo(options.model || this.llmProvider.model, this.llmProvider.name),
+    });
+
+    const completion = await this.llmProvider.reviewCode(
+      systemPrompt,
+      userPrompt,
+      budget.messages,
+      { model: options.model, maxTokens: budget.maxTokens }
+    );
+
+    const response = this.llmProvider.sanitizeResponse(completion.content);
+
+    // Explanations are prose; the other actions return code
+    const code = action === 'explain' || reviewed.files
+      ? null
+      : this.contextService.extractCodeBlock(response);
+
+    await this.appendTurn(session, [
+      { role: 'user', content: userPrompt, action },
+      { role: 'assistant', content: response, action },
+    ]);
+
+    logger.info('Follow-up action completed', {
+      sessionId,
+      action,
+      model: completion.model,
+      responseLength: response.length,
+      hasCode: code !== null,
+    });
+
+    return {
+      action,
+      response,
+      code,
+      framework: action === 'tests' ? this.contextService.getActionConvention(action, reviewed.language) : null,
+      language: reviewed.language,
+      sessionId,
+      model: completion.model,
+      provider: completion.provider,
+    };
+  }
+
+  /**
+   * Generate a patch for selected findings of the last review, checked against the reviewed code
+   * Without finding IDs the patch addresses the whole review
+   */
+  async runFix(sessionId: string, options: FixOptions = {}): Promise<FixResult> {
+    const session = await this.getSession(sessionId, options.owner);
+    const reviewed = session.last_review;
+
+    if (!reviewed) {
+      throw new ValidationError('No reviewed code in this session; review code before requesting a fix', {
+        sessionId,
+      });
+    }
+
+    // A diff holds only fragments of each file, so there is nothing to patch against
+    if (reviewed.input_type === 'diff') {
+      throw new ValidationError('Fixes can only be generated for code and file reviews, not diffs');
+    }
+
+    const available = reviewed.findings || [];
+    let findings = available;
+
+    if (options.findingIds) {
+      const unknown = options.findingIds.filter(id => !available.some(finding => finding.id === id));
+
+      if (unknown.length > 0) {
+        throw new ValidationError('Unknown finding IDs', {
+          unknown,
+          available: available.map(finding => finding.id),
+        });
+      }
+
+      findings = available.filter(finding => options.findingIds!.includes(finding.id));
+    }
+
+    const sources: Record<string, string> = reviewed.files
+      ? Object.fromEntries(reviewed.files.map(file => [file.path, file.content]))
+      : { [SNIPPET_PATH]: reviewed.code || '' };
+
+    const userContext = options.context
+      ? this.contextService.redactSecrets(options.context).text
+      : undefined;
+
+    const systemPrompt = this.contextService.buildActionSystemPrompt('fix', reviewed.language);
+    const userPrompt = this.contextService.buildActionUserPrompt('fix', reviewed, userContext, findings);
+
+    const { completion, result, attempts } = await requestPatch(this.llmProvider, this.contextService, {
+      systemPrompt,
+      userPrompt,
+      history: session.messages.filter(msg => msg.role !== 'system'),
+      modelInfo: getModelInfo(options.model || this.llmProvider.model, this.llmProvider.name),
+      model: options.model,
+      sources,
+    });
+
+    if (!result.ok) {
+      logger.warn('Fix patch rejected', { sessionId, attempts, error: result.error });
+      throw new PatchError('Could not generate a patch that applies cleanly', {
+        attempts,
+        reason: result.error,
+      });
+    }
+
+    // The patch applies to the stored code, which may differ from what was submitted
+    const changes = result.files.flatMap(file =>
+      (reviewed.source_changes?.[file.path] || []).map(change => ({ path: file.path, change }))
+    );
+    const warnings = changes.map(({ path, change }) => this.describeSourceChange(path, change));
+
+    // History keeps the validated patch rather than the model's raw attempt
+    await this.appendTurn(session, [
+      { role: 'user', content: userPrompt, action: 'fix' },
+      { role: 'assistant', content: `\`\`\`diff\n${result.patch}\`\`\``, action: 'fix' },
+    ]);
+
+    logger.info('Fix patch generated', {
+      sessionId,
+      model: completion.model,
+      attempts,
+      fileCount: result.files.length,
+      findingCount: findings.length,
+    });
+
+    return {
+      patch: result.patch,
+      files: result.files,
+      findingIds: findings.map(finding => finding.id),
+      attempts,
+      warnings,
+      applicable: changes.every(({ change }) => change === 'whitespace'),
+      sessionId,
+      model: completion.model,
+      provider: completion.provider,
+    };
+  }
+
+  /**
+   * Redacted input and review kept on the session for follow-up actions
+   */
+  private buildReviewedCode(
+    inputType: ReviewedCode['input_type'],
+    code: string,
+    files: ReviewFile[] | null,
+    language: string | undefined,
+    review: string,
+    findings: ReviewFinding[],
+    structured: boolean,
+    sourceChanges: Record<string, SourceChange[]>
+  ): ReviewedCode {
+    return {
+      input_type: inputType,
+      ...(files ? { files } : { code }),
+      language: language || null,
+      review,
+      findings,
+      structured,
+      ...(Object.keys(sourceChanges).length > 0 ? { source_changes: sourceChanges } : {}),
+      reviewed_at: new Date().toISOString(),
+    };
+  }
 
-    // Keep only last 10 messages
-    if (session.messages.length > 10) {
-      session.messages = session.messages.slice(-10);
+  /**
+   * Structured review with its model-written text sanitized like a free-text review,
+   * since it is rendered, streamed, stored and cached the same way
+   */
+  private sanitizeStructured(review: StructuredReview): StructuredReview {
+    return {
+      summary: this.llmProvider.sanitizeResponse(review.summary),
+      findings: review.findings.map(finding => ({
+        ...finding,
+        message: this.llmProvider.sanitizeResponse(finding.message),
+        suggested_fix: finding.suggested_fix === null
+          ? null
+          : this.llmProvider.sanitizeResponse(finding.suggested_fix),
+      })),
+    };
+  }
+
+  /**
+   * Note how sanitizing and redaction changed a submitted file, so fixes can say so
+   */
+  private recordSourceChanges(
+    changes: Record<string, SourceChange[]>,
+    path: string,
+    original: string,
+    sanitized: string,
+    redacted: boolean
+  ): void {
+    const found: SourceChange[] = [];
+
+    if (redacted) found.push('redacted');
+    if (sanitized !== original.trim()) found.push('markup');
+    if (original !== original.trim()) found.push('whitespace');
+
+    if (found.length > 0) {
+      changes[path] = found;
+    }
+  }
+
+  /**
+   * Warning for a fix on a file whose stored text was changed before review
+   */
+  private describeSourceChange(path: string, change: SourceChange): string {
+    const file = path === SNIPPET_PATH ? 'The code' : path;
+
+    switch (change) {
+      case 'redacted':
+        return `${file} had secrets redacted before review; the patched content has [REDACTED:…] placeholders in their place`;
+      case 'markup':
+        return `${file} had script or iframe tags removed before review; the patched content has [REMOVED: …] placeholders in their place`;
+      case 'whitespace':
+        return `${file} had leading and trailing whitespace trimmed before review; the patch applies to the trimmed code`;
+    }
+  }
+
+  /**
+   * Assistant message for a reply, recording its mode, findings and the rule packs it used
+   */
+  private buildReviewMessage(
+    review: string,
+    mode: ChatMode,
+    findings: ReviewFinding[],
+    rulePacks: string[]
+  ): ChatMessage {
+    const message: ChatMessage = { role: 'assistant', content: review, mode };
+
+    if (findings.length > 0) {
+      message.findings = findings;
     }
 
-    await this.updateSession(session);
+    if (rulePacks.length > 0) {
+      message.rule_packs = rulePacks;
+    }
+
+    return message;
+  }
 
-    return { review, severity, sessionId };
+  /**
+   * Build the user prompt for a diff review
+   * Sanitized after rendering so line numbers come from the original diff
+   */
+  private buildDiffPrompt(files: DiffFile[], userContext?: string): string {
+    return this.contextService.sanitizeCode(
+      this.contextService.buildDiffUserPrompt(files, userContext)
+    );
+  }
+
+  /**
+   * Language of the review: the user's choice, otherwise detected per scanned text
+   * Files without a language get the detected one for their prompt label; mixed-language
+   * requests name every language and take the lowest confidence
+   */
+  private detectReviewLanguage(
+    targets: ScanTarget[],
+    files: ReviewFile[] | null,
+    selected?: string
+  ): LanguageDetection {
+    const detections = targets.map((target, index) => {
+      const chosen = files?.[index].language;
+
+      if (chosen) {
+        return { language: chosen, confidence: 1, source: 'user' } as LanguageDetection;
+      }
+
+      const detected = this.contextService.detectLanguage(target.text, target.file);
+
+      if (files && detected.language) {
+        files[index].language = detected.language;
+      }
+
+      return detected;
+    });
+
+    if (selected) {
+      return { language: selected, confidence: 1, source: 'user' };
+    }
+
+    const known = detections.filter(detection => detection.language !== null);
+
+    if (known.length === 0) {
+      return { language: null, confidence: 0, source: 'none' };
+    }
+
+    const weakest = known.reduce((lowest, detection) =>
+      detection.confidence < lowest.confidence ? detection : lowest
+    );
+
+    return {
+      language: Array.from(new Set(known.map(detection => detection.language))).join(', '),
+      confidence: weakest.confidence,
+      source: weakest.source,
+    };
+  }
+
+  /**
+   * Text scanned for language and injection: each file, the added lines of a diff, or the code
+   * Diff lines keep their new-file numbers so hits point at the right place
+   */
+  private buildScanTargets(
+    code: string,
+    files: ReviewFile[] | null,
+    diffFiles: DiffFile[] | null
+  ): ScanTarget[] {
+    if (files) {
+      return files.map(file => ({ text: file.content, file: file.path }));
+    }
+
+    if (diffFiles) {
+      return diffFiles.map(file => {
+        const added = file.hunks.flatMap(hunk => hunk.lines.filter(line => line.type === 'add'));
+        return {
+          text: added.map(line => line.content).join('\n'),
+          file: file.path,
+          lines: added.map(line => line.new_line),
+        };
+      });
+    }
+
+    return [{ text: code }];
+  }
+
+  /**
+   * Label a session by the files it reviews or the first line of its first input
+   */
+  private buildTitle(code: string, reviewFiles: ReviewFile[] | null, diffFiles: DiffFile[] | null): string {
+    const paths = reviewFiles?.map(file => file.path) || diffFiles?.map(file => file.path);
+    const title = paths
+      ? `${paths[0]}${paths.length > 1 ? ` and ${paths.length - 1} more` : ''}`
+      : (code.split('\n').find(line => line.trim()) || '').trim().replace(/\s+/g, ' ');
+
+    return title.length > MAX_TITLE_LENGTH ? `${title.slice(0, MAX_TITLE_LENGTH - 1)}…` : title;
+  }
+
+  /**
+   * Cap stored history so session records stay small
+   * Prompt-time trimming to the model's context window happens in buildHistory
+   */
+  private trimStoredMessages(session: ChatSession): void {
+    if (session.messages.length > MAX_STORED_MESSAGES) {
+      session.messages = session.messages.slice(-MAX_STORED_MESSAGES);
+    }
+  }
+
+  /**
+   * List an owner's live sessions
+   */
+  async listSessions(query: SessionListQuery): Promise<SessionPage> {
+    if (query.cursor) {
+      decodeSessionCursor(query.cursor);
+    }
+
+    return this.store.list(query);
   }
 
   /**
    * Delete session
+   * Only its owner can delete an owned session
+   * With expectedVersion, only a session still at that version is deleted
    */
-  async deleteSession(sessionId: string): Promise<void> {
-    if (!this.kv) {
-      return;
+  async deleteSession(sessionId: string, owner: string, expectedVersion?: number): Promise<void> {
+    await this.getSession(sessionId, owner);
+
+    if (!(await this.store.delete(sessionId, expectedVersion))) {
+      const session = await this.getSession(sessionId);
+
+      throw new PreconditionFailedError('Session has changed since the given version', {
+        sessionId,
+        version: session.version,
+        expectedVersion,
+      });
     }
 
-    await this.kv.delete(`session:${sessionId}`);
     logger.info('Session deleted', { sessionId });
   }
 
   /**
    * Get session stats (for health check)
    */
-  async getStats(): Promise<{ totalSessions: number }> {
-    // Note: KV doesn't support listing all keys efficiently
-    // In production, consider using Durable Objects for better stats tracking
-    return { totalSessions: 0 };
+  async getStats(): Promise<{ totalSessions: number | null }> {
+    return { totalSessions: await this.store.count() };
   }
 }
 
 // Export factory function
 export function createSessionService(
   contextService: ContextService,
-  groqService: GroqService,
-  kv?: KVNamespace
+  llmProvider: LLMProvider,
+  store?: SessionStore,
+  reviewCache?: ReviewCache,
+  chunkedReviewService?: ChunkedReviewService,
+  guidelineService?: GuidelineService
 ): SessionService {
-  logger.info('Session service initialized', { kvAvailable: !!kv });
-  return new SessionService(contextService, groqService, kv);
+  logger.info('Session service initialized', { store: store?.name || 'memory' });
+  return new SessionService(
+    contextService,
+    llmProvider,
+    store,
+    reviewCache,
+    chunkedReviewService,
+    guidelineService
+  );
 }
@@ -0,0 +1,262 @@
+/**
+ * Session Durable Objects
+ * One object per chat session, so reads and writes for a session are strongly
+ * consistent and run one at a time, plus index objects: one per owner for listing and
+ * one over every session for the count
+ * Exported from the Workers entry point; not imported by the Bun server
+ */
+
+import { DurableObject } from 'cloudflare:workers';
+import type { Bindings, ChatSession, SessionListQuery, SessionPage, SessionSummary } from '../types/index.ts';
+import { logger } from '../utils/logger.ts';
+import { getSessionIndex, pageSessions, summarizeSession } from './sessionStore.ts';
+
+const SESSION_KEY = 'session';
+const EXPIRES_AT_KEY = 'expires_at';
+const SUMMARY_PREFIX = 'summary:';
+const COUNT_KEY = 'count';
+
+/**
+ * Holds a single session and deletes it with an alarm when its TTL runs out
+ */
+export class SessionObject extends DurableObject<Bindings> {
+  /**
+   * Stored session, or null when missing or expired
+   * An alarm can fire late, so expiry is also checked on read
+   */
+  async getSession(): Promise<ChatSession | null> {
+    const expiresAt = await this.ctx.storage.get<number>(EXPIRES_AT_KEY);
+
+    if (expiresAt === undefined || expiresAt <= Date.now()) {
+      return null;
+    }
+
+    return (await this.ctx.storage.get<ChatSession>(SESSION_KEY)) || null;
+  }
+
+  /**
+   * Store the session and move its expiry alarm
+   */
+  async putSession(session: ChatSession, ttlSeconds: number): Promise<void> {
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+
+    await this.ctx.storage.put<unknown>({ [SESSION_KEY]: session, [EXPIRES_AT_KEY]: expiresAt });
+    await this.ctx.storage.setAlarm(expiresAt);
+
+    await this.updateIndexes(session, index => index.record(summarizeSession(session, expiresAt)));
+  }
+
+  /**
+   * Store the session only if the stored copy is live and still at expectedVersion
+   * Only storage calls run between the check and the write, so the object's input gate
+   * keeps other requests from interleaving
+   */
+  async compareAndSetSession(session: ChatSession, expectedVersion: number, ttlSeconds: number): Promise<boolean> {
+    if (!(await this.hasVersion(expectedVersion))) {
+      return false;
+    }
+
+    await this.putSession(session, ttlSeconds);
+    return true;
+  }
+
+  /**
+   * Delete the session and its alarm, if it is at expectedVersion when one is given
+   */
+  async deleteSession(expectedVersion?: number): Promise<boolean> {
+    if (expectedVersion !== undefined && !(await this.hasVersion(expectedVersion))) {
+      return false;
+    }
+
+    await this.clear();
+    return true;
+  }
+
+  /**
+   * Expire the session once its TTL has passed
+   */
+  async alarm(): Promise<void> {
+    const expiresAt = await this.ctx.storage.get<number>(EXPIRES_AT_KEY);
+
+    if (expiresAt === undefined) {
+      return;
+    }
+
+    // The session was written after this alarm was scheduled
+    if (expiresAt > Date.now()) {
+      await this.ctx.storage.setAlarm(expiresAt);
+      return;
+    }
+
+    const sessionId = await this.clear();
+    logger.info('Session expired', { sessionId });
+  }
+
+  private async hasVersion(version: number): Promise<boolean> {
+    const current = await this.getSession();
+    return current !== null && (current.version ?? 0) === version;
+  }
+
+  /**
+   * Remove all stored state and the index entry, returning the cleared session's ID
+   */
+  private async clear(): Promise<string | null> {
+    const session = await this.ctx.storage.get<ChatSession>(SESSION_KEY);
+
+    await this.ctx.storage.deleteAlarm();
+    await this.ctx.storage.deleteAll();
+
+    if (!session) {
+      return null;
+    }
+
+    await this.updateIndexes(session, index => index.remove(session.id));
+    return session.id;
+  }
+
+  /**
+   * Apply a change to the counting index and the owner's index without failing the session write
+   * The indexes drop expired entries on their own, so a missed update only skews listings and counts
+   */
+  private async updateIndexes(
+    session: ChatSession,
+    change: (index: DurableObjectStub<SessionIndexObject>) => Promise<void>
+  ): Promise<void> {
+    const namespace = this.env.SESSION_INDEX;
+
+    if (!namespace) {
+      return;
+    }
+
+    const indexes = [getSessionIndex(namespace)];
+    if (session.owner) indexes.push(getSessionIndex(namespace, session.owner));
+
+    try {
+      await Promise.all(indexes.map(change));
+    } catch (error) {
+      logger.warn('Session index update failed', { error: String(error) });
+    }
+  }
+}
+
+/**
+ * Summaries of live sessions, pruned by an alarm at the earliest expiry
+ * Each owner's sessions have their own index, so listing reads only that owner's entries;
+ * a running count of entries is kept beside them so counting reads a single key
+ */
+export class SessionIndexObject extends DurableObject<Bindings> {
+  /**
+   * Add or refresh a session's summary
+   * Updates can arrive out of order, so an older summary never replaces a newer one
+   */
+  async record(summary: SessionSummary): Promise<void> {
+    const key = `${SUMMARY_PREFIX}${summary.id}`;
+    const existing = await this.ctx.storage.get<SessionSummary>(key);
+
+    if (existing && existing.updated_at > summary.updated_at) {
+      return;
+    }
+
+    if (existing) {
+      await this.ctx.storage.put(key, summary);
+    } else {
+      await this.ctx.storage.put<unknown>({ [key]: summary, [COUNT_KEY]: (await this.storedCount()) + 1 });
+    }
+
+    await this.scheduleAt(Date.parse(summary.expires_at));
+  }
+
+  /**
+   * Remove a session's summary
+   */
+  async remove(sessionId: string): Promise<void> {
+    const count = await this.storedCount();
+
+    if (await this.ctx.storage.delete(`${SUMMARY_PREFIX}${sessionId}`)) {
+      await this.ctx.storage.put(COUNT_KEY, count - 1);
+    }
+  }
+
+  /**
+   * Page of an owner's live sessions; called on that owner's index
+   */
+  async list(query: SessionListQuery): Promise<SessionPage> {
+    return pageSessions(await this.liveSummaries(), query);
+  }
+
+  /**
+   * Number of indexed sessions
+   * Sessions past their expiry are counted until the pruning alarm removes them
+   */
+  async count(): Promise<number> {
+    return this.storedCount();
+  }
+
+  /**
+   * Drop expired summaries and schedule the next pruning
+   */
+  async alarm(): Promise<void> {
+    const now = Date.now();
+    const count = await this.storedCount();
+    const entries = await this.ctx.storage.list<SessionSummary>({ prefix: SUMMARY_PREFIX });
+    const expired: string[] = [];
+    let next: number | null = null;
+
+    for (const [key, summary] of entries) {
+      const expiresAt = Date.parse(summary.expires_at);
+
+      if (expiresAt <= now) {
+        expired.push(key);
+      } else if (next === null || expiresAt < next) {
+        next = expiresAt;
+      }
+    }
+
+    // Storage deletes at most 128 keys per call
+    for (let i = 0; i < expired.length; i += 128) {
+      await this.ctx.storage.delete(expired.slice(i, i + 128));
+    }
+
+    if (expired.length > 0) {
+      await this.ctx.storage.put(COUNT_KEY, count - expired.length);
+    }
+
+    if (next !== null) {
+      await this.ctx.storage.setAlarm(next);
+    }
+  }
+
+  private async liveSummaries(): Promise<SessionSummary[]> {
+    const now = new Date().toISOString();
+    const entries = await this.ctx.storage.list<SessionSummary>({ prefix: SUMMARY_PREFIX });
+
+    return Array.from(entries.values()).filter(summary => summary.expires_at > now);
+  }
+
+  /**
+   * Running count of entries, taken from the entries themselves in an index written
+   * before the count was kept
+   */
+  private async storedCount(): Promise<number> {
+    const stored = await this.ctx.storage.get<number>(COUNT_KEY);
+
+    if (stored !== undefined) {
+      return stored;
+    }
+
+    const entries = await this.ctx.storage.list({ prefix: SUMMARY_PREFIX });
+    await this.ctx.storage.put(COUNT_KEY, entries.size);
+    return entries.size;
+  }
+
+  /**
+   * Move the pruning alarm earlier when a session expires before it
+   */
+  private async scheduleAt(time: number): Promise<void> {
+    const current = await this.ctx.storage.getAlarm();
+
+    if (current === null || time < current) {
+      await this.ctx.storage.setAlarm(time);
+    }
+  }
+}
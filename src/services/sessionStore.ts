@@ -0,0 +1,404 @@
+/**
+ * Session Stores
+ * Persistence backends for chat sessions, selected with SESSION_STORE
+ */
+
+import type {
+  ChatSession,
+  EnvConfig,
+  SessionListQuery,
+  SessionPage,
+  SessionSummary,
+} from '../types/index.ts';
+import { ValidationError, safeJsonParse } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import type { SessionIndexObject, SessionObject } from './sessionObjects.ts';
+
+const KEY_PREFIX = 'session:';
+
+// KV keys listing each owner's sessions, with the session summary as metadata
+const OWNER_KEY_PREFIX = 'session-owner:';
+
+// Name of the index object counting every session in the SESSION_INDEX namespace
+const SESSION_INDEX_NAME = 'sessions';
+
+// Prefix of the index object names that list one owner's sessions
+const OWNER_INDEX_PREFIX = 'owner:';
+
+// Upper bound on sessions kept in memory; the least recently written are evicted first
+const MAX_MEMORY_SESSIONS = 1000;
+
+// Persistence backend for chat sessions
+export interface SessionStore {
+  readonly name: string;
+  get(sessionId: string): Promise<ChatSession | null>;
+  // Store a new session unconditionally
+  put(session: ChatSession, ttlSeconds: number): Promise<void>;
+  // Store the session only if the stored copy is live and still at expectedVersion
+  compareAndSet(session: ChatSession, expectedVersion: number, ttlSeconds: number): Promise<boolean>;
+  // With expectedVersion, delete only a live session at that version
+  delete(sessionId: string, expectedVersion?: number): Promise<boolean>;
+  // Page of an owner's live sessions from the store's index
+  list(query: SessionListQuery): Promise<SessionPage>;
+  // Number of live sessions, or null when the store cannot count them without a full scan
+  count(): Promise<number | null>;
+}
+
+// Durable Object namespaces backing the durable session store
+export interface SessionObjectBindings {
+  sessions?: DurableObjectNamespace<SessionObject>;
+  index?: DurableObjectNamespace<SessionIndexObject>;
+}
+
+// Where a session falls in a sorted listing
+export type SessionPosition = Pick<SessionSummary, 'id' | 'created_at' | 'updated_at'>;
+
+/**
+ * Index entry for a session expiring at expiresAt
+ */
+export function summarizeSession(session: ChatSession, expiresAt: number): SessionSummary {
+  return {
+    id: session.id,
+    owner: session.owner,
+    title: session.title || null,
+    message_count: session.messages.length,
+    created_at: session.created_at,
+    updated_at: session.updated_at,
+    expires_at: new Date(expiresAt).toISOString(),
+  };
+}
+
+/**
+ * Select one page of an owner's live sessions from a store's summaries
+ * The cursor names the last session of the previous page, so new sessions do not shift pages
+ */
+export function pageSessions(summaries: SessionSummary[], query: SessionListQuery): SessionPage {
+  const now = new Date().toISOString();
+  const direction = query.order === 'asc' ? 1 : -1;
+  const compare = (a: SessionPosition, b: SessionPosition) =>
+    direction * (a[query.sort].localeCompare(b[query.sort]) || a.id.localeCompare(b.id));
+
+  const after = query.cursor ? decodeSessionCursor(query.cursor) : null;
+  const remaining = summaries
+    .filter(summary => summary.owner === query.owner && summary.expires_at > now)
+    .filter(summary => !after || compare(summary, after) > 0)
+    .sort(compare);
+
+  const sessions = remaining.slice(0, query.limit);
+  const last = sessions[sessions.length - 1];
+
+  return {
+    sessions,
+    next_cursor: remaining.length > query.limit ? btoa(JSON.stringify([last[query.sort], last.id])) : null,
+  };
+}
+
+/**
+ * Position named by a cursor; its timestamp stands for whichever field is sorted on
+ */
+export function decodeSessionCursor(cursor: string): SessionPosition {
+  let decoded: unknown = null;
+
+  try {
+    decoded = JSON.parse(atob(cursor));
+  } catch {
+    // Reported below
+  }
+
+  if (!Array.isArray(decoded) || decoded.length !== 2 || !decoded.every(part => typeof part === 'string')) {
+    throw new ValidationError('Invalid cursor', { cursor });
+  }
+
+  return { id: decoded[1], created_at: decoded[0], updated_at: decoded[0] };
+}
+
+/**
+ * Sessions stored in a KV namespace, expired by KV itself
+ * Each owned session also has an owner key whose metadata is its summary, for listing
+ */
+export class KVSessionStore implements SessionStore {
+  readonly name = 'kv';
+  private kv: KVNamespace;
+
+  constructor(kv: KVNamespace) {
+    this.kv = kv;
+  }
+
+  async get(sessionId: string): Promise<ChatSession | null> {
+    const data = await this.kv.get(`${KEY_PREFIX}${sessionId}`, 'text');
+    return data ? safeJsonParse<ChatSession | null>(data, null) : null;
+  }
+
+  async put(session: ChatSession, ttlSeconds: number): Promise<void> {
+    await this.kv.put(`${KEY_PREFIX}${session.id}`, JSON.stringify(session), {
+      expirationTtl: ttlSeconds,
+    });
+
+    if (session.owner) {
+      await this.kv.put(this.ownerKey(session.owner, session.id), '', {
+        expirationTtl: ttlSeconds,
+        metadata: summarizeSession(session, Date.now() + ttlSeconds * 1000),
+      });
+    }
+  }
+
+  /**
+   * KV has no conditional writes, so the version is checked just before writing
+   * This narrows the window for lost updates but cannot close it; use durable for that
+   */
+  async compareAndSet(session: ChatSession, expectedVersion: number, ttlSeconds: number): Promise<boolean> {
+    if (!(await this.hasVersion(session.id, expectedVersion))) {
+      return false;
+    }
+
+    await this.put(session, ttlSeconds);
+    return true;
+  }
+
+  async delete(sessionId: string, expectedVersion?: number): Promise<boolean> {
+    const current = await this.get(sessionId);
+
+    if (expectedVersion !== undefined && (current === null || (current.version ?? 0) !== expectedVersion)) {
+      return false;
+    }
+
+    await this.kv.delete(`${KEY_PREFIX}${sessionId}`);
+
+    if (current?.owner) {
+      await this.kv.delete(this.ownerKey(current.owner, sessionId));
+    }
+
+    return true;
+  }
+
+  async list(query: SessionListQuery): Promise<SessionPage> {
+    const summaries: SessionSummary[] = [];
+
+    await this.eachKeyPage(`${OWNER_KEY_PREFIX}${query.owner}:`, keys => {
+      for (const key of keys) {
+        if (key.metadata) {
+          summaries.push(key.metadata as SessionSummary);
+        }
+      }
+    });
+
+    return pageSessions(summaries, query);
+  }
+
+  /**
+   * KV expires keys without telling anyone and has no atomic counters, so no count can be
+   * kept in step with it; counting the keys would list the whole namespace
+   */
+  async count(): Promise<null> {
+    return null;
+  }
+
+  private async hasVersion(sessionId: string, version: number): Promise<boolean> {
+    const current = await this.get(sessionId);
+    return current !== null && (current.version ?? 0) === version;
+  }
+
+  private ownerKey(owner: string, sessionId: string): string {
+    return `${OWNER_KEY_PREFIX}${owner}:${sessionId}`;
+  }
+
+  /**
+   * Walk every page of keys under a prefix; KV returns at most 1000 per call
+   */
+  private async eachKeyPage(
+    prefix: string,
+    visit: (keys: KVNamespaceListKey<unknown>[]) => void
+  ): Promise<void> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.kv.list({ prefix, cursor });
+      visit(page.keys);
+      cursor = page.list_complete ? undefined : page.cursor;
+    } while (cursor);
+  }
+}
+
+/**
+ * Stub of the index object for an owner's sessions, or of the one counting every session
+ */
+export function getSessionIndex(
+  namespace: DurableObjectNamespace<SessionIndexObject>,
+  owner?: string
+): DurableObjectStub<SessionIndexObject> {
+  const name = owner === undefined ? SESSION_INDEX_NAME : `${OWNER_INDEX_PREFIX}${owner}`;
+  return namespace.get(namespace.idFromName(name));
+}
+
+/**
+ * Sessions stored in one Durable Object each, expired by alarms
+ * Unlike KV, a write is visible to the next read at once, and writes to a session
+ * are applied one at a time by its object
+ */
+export class DurableObjectSessionStore implements SessionStore {
+  readonly name = 'durable';
+  private sessions: DurableObjectNamespace<SessionObject>;
+  private index: DurableObjectNamespace<SessionIndexObject>;
+
+  constructor(
+    sessions: DurableObjectNamespace<SessionObject>,
+    index: DurableObjectNamespace<SessionIndexObject>
+  ) {
+    this.sessions = sessions;
+    this.index = index;
+  }
+
+  async get(sessionId: string): Promise<ChatSession | null> {
+    return this.session(sessionId).getSession();
+  }
+
+  async put(session: ChatSession, ttlSeconds: number): Promise<void> {
+    await this.session(session.id).putSession(session, ttlSeconds);
+  }
+
+  async compareAndSet(session: ChatSession, expectedVersion: number, ttlSeconds: number): Promise<boolean> {
+    return this.session(session.id).compareAndSetSession(session, expectedVersion, ttlSeconds);
+  }
+
+  async delete(sessionId: string, expectedVersion?: number): Promise<boolean> {
+    return this.session(sessionId).deleteSession(expectedVersion);
+  }
+
+  async list(query: SessionListQuery): Promise<SessionPage> {
+    return getSessionIndex(this.index, query.owner).list(query);
+  }
+
+  async count(): Promise<number> {
+    return getSessionIndex(this.index).count();
+  }
+
+  private session(sessionId: string): DurableObjectStub<SessionObject> {
+    return this.sessions.get(this.sessions.idFromName(sessionId));
+  }
+}
+
+interface MemorySessionEntry {
+  data: string;
+  version: number;
+  expiresAt: number;
+  summary: SessionSummary;
+}
+
+// Shared across requests so the Bun dev server keeps sessions between calls
+const memorySessions = new Map<string, MemorySessionEntry>();
+
+/**
+ * Sessions kept in process memory with a TTL; lost on restart
+ * Stored as JSON so callers never share mutable session objects, as with KV
+ */
+export class MemorySessionStore implements SessionStore {
+  readonly name = 'memory';
+
+  async get(sessionId: string): Promise<ChatSession | null> {
+    const entry = this.liveEntry(sessionId);
+    return entry ? safeJsonParse<ChatSession | null>(entry.data, null) : null;
+  }
+
+  async put(session: ChatSession, ttlSeconds: number): Promise<void> {
+    // Re-inserting moves the session to the end, so eviction removes the stalest
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+
+    memorySessions.delete(session.id);
+    memorySessions.set(session.id, {
+      data: JSON.stringify(session),
+      version: session.version,
+      expiresAt,
+      summary: summarizeSession(session, expiresAt),
+    });
+
+    this.evict();
+  }
+
+  // The check and the write run without yielding, so they cannot interleave with another request
+  async compareAndSet(session: ChatSession, expectedVersion: number, ttlSeconds: number): Promise<boolean> {
+    if (this.liveEntry(session.id)?.version !== expectedVersion) {
+      return false;
+    }
+
+    await this.put(session, ttlSeconds);
+    return true;
+  }
+
+  async delete(sessionId: string, expectedVersion?: number): Promise<boolean> {
+    if (expectedVersion !== undefined && this.liveEntry(sessionId)?.version !== expectedVersion) {
+      return false;
+    }
+
+    memorySessions.delete(sessionId);
+    return true;
+  }
+
+  async list(query: SessionListQuery): Promise<SessionPage> {
+    return pageSessions(Array.from(memorySessions.values(), entry => entry.summary), query);
+  }
+
+  async count(): Promise<number> {
+    this.evict();
+    return memorySessions.size;
+  }
+
+  private liveEntry(sessionId: string): MemorySessionEntry | null {
+    const entry = memorySessions.get(sessionId);
+
+    if (!entry) {
+      return null;
+    }
+
+    if (entry.expiresAt <= Date.now()) {
+      memorySessions.delete(sessionId);
+      return null;
+    }
+
+    return entry;
+  }
+
+  private evict(): void {
+    const now = Date.now();
+
+    for (const [sessionId, entry] of memorySessions) {
+      if (entry.expiresAt <= now || memorySessions.size > MAX_MEMORY_SESSIONS) {
+        memorySessions.delete(sessionId);
+      }
+    }
+  }
+}
+
+/**
+ * Build the session store named by SESSION_STORE, defaulting to Durable Objects and then
+ * KV when bound
+ * The sqlite store needs Bun and is created by the Bun entry point instead
+ */
+export function createSessionStore(
+  config: EnvConfig,
+  kv?: KVNamespace,
+  objects: SessionObjectBindings = {}
+): SessionStore {
+  const backend = config.SESSION_STORE || (objects.sessions ? 'durable' : kv ? 'kv' : 'memory');
+  let sessionStore: SessionStore;
+
+  if (backend === 'durable') {
+    if (!objects.sessions || !objects.index) {
+      throw new ValidationError(
+        'SESSION_STORE is durable but the SESSION_OBJECTS and SESSION_INDEX Durable Object namespaces are not both bound'
+      );
+    }
+    sessionStore = new DurableObjectSessionStore(objects.sessions, objects.index);
+  } else if (backend === 'kv') {
+    if (!kv) {
+      throw new ValidationError('SESSION_STORE is kv but no SESSIONS KV namespace is bound');
+    }
+    sessionStore = new KVSessionStore(kv);
+  } else if (backend === 'memory') {
+    sessionStore = new MemorySessionStore();
+  } else {
+    throw new ValidationError(`Session store "${backend}" is not available in this runtime`);
+  }
+
+  logger.info('Session store initialized', { backend: sessionStore.name });
+  return sessionStore;
+}
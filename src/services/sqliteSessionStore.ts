@@ -0,0 +1,152 @@
+/**
+ * SQLite Session Store
+ * Keeps chat sessions in a bun:sqlite database so history survives restarts
+ * Not imported by the Workers entry point, which has no bun:sqlite
+ */
+
+import { Database } from 'bun:sqlite';
+import type { ChatSession, SessionListQuery, SessionPage, SessionSummary } from '../types/index.ts';
+import { safeJsonParse } from '../utils/errors.ts';
+import { logger } from '../utils/logger.ts';
+import { pageSessions, summarizeSession } from './sessionStore.ts';
+import type { SessionStore } from './sessionStore.ts';
+
+export const DEFAULT_SESSION_DB_PATH = 'sessions.db';
+
+// Version of a stored session; rows written before versioning have none
+const STORED_VERSION = "COALESCE(json_extract(data, '$.version'), 0)";
+
+// Expired rows are purged on write, at most this often
+const PURGE_INTERVAL_MS = 60 * 1000;
+
+// One connection per file, shared by the per-request services
+const databases = new Map<string, Database>();
+
+function openDatabase(path: string): Database {
+  let db = databases.get(path);
+
+  if (!db) {
+    db = new Database(path, { create: true });
+    db.exec('PRAGMA journal_mode = WAL');
+    db.exec(`CREATE TABLE IF NOT EXISTS sessions (
+      id TEXT PRIMARY KEY,
+      data TEXT NOT NULL,
+      expires_at INTEGER NOT NULL
+    )`);
+    db.exec('CREATE INDEX IF NOT EXISTS sessions_expires_at ON sessions (expires_at)');
+
+    // Owner and summary columns index sessions for listing; databases from before them gain them here
+    const columns = db.query('PRAGMA table_info(sessions)').all() as { name: string }[];
+    if (!columns.some(column => column.name === 'owner')) {
+      db.exec('ALTER TABLE sessions ADD COLUMN owner TEXT');
+      db.exec('ALTER TABLE sessions ADD COLUMN summary TEXT');
+    }
+    db.exec('CREATE INDEX IF NOT EXISTS sessions_owner ON sessions (owner, expires_at)');
+
+    databases.set(path, db);
+
+    logger.info('Session database opened', { path });
+  }
+
+  return db;
+}
+
+let lastPurge = 0;
+
+export class SqliteSessionStore implements SessionStore {
+  readonly name = 'sqlite';
+  private db: Database;
+
+  constructor(path: string = DEFAULT_SESSION_DB_PATH) {
+    this.db = openDatabase(path);
+  }
+
+  async get(sessionId: string): Promise<ChatSession | null> {
+    const row = this.db
+      .query('SELECT data FROM sessions WHERE id = ? AND expires_at > ?')
+      .get(sessionId, Date.now()) as { data: string } | null;
+
+    return row ? safeJsonParse<ChatSession | null>(row.data, null) : null;
+  }
+
+  async put(session: ChatSession, ttlSeconds: number): Promise<void> {
+    const expiresAt = Date.now() + ttlSeconds * 1000;
+
+    this.db
+      .query(`INSERT INTO sessions (id, data, expires_at, owner, summary) VALUES (?, ?, ?, ?, ?)
+        ON CONFLICT(id) DO UPDATE SET data = excluded.data, expires_at = excluded.expires_at,
+          owner = excluded.owner, summary = excluded.summary`)
+      .run(
+        session.id,
+        JSON.stringify(session),
+        expiresAt,
+        session.owner ?? null,
+        JSON.stringify(summarizeSession(session, expiresAt))
+      );
+
+    this.purgeExpired();
+  }
+
+  async compareAndSet(session: ChatSession, expectedVersion: number, ttlSeconds: number): Promise<boolean> {
+    const now = Date.now();
+    const expiresAt = now + ttlSeconds * 1000;
+    const result = this.db
+      .query(`UPDATE sessions SET data = ?, expires_at = ?, owner = ?, summary = ?
+        WHERE id = ? AND expires_at > ? AND ${STORED_VERSION} = ?`)
+      .run(
+        JSON.stringify(session),
+        expiresAt,
+        session.owner ?? null,
+        JSON.stringify(summarizeSession(session, expiresAt)),
+        session.id,
+        now,
+        expectedVersion
+      );
+
+    return result.changes > 0;
+  }
+
+  async delete(sessionId: string, expectedVersion?: number): Promise<boolean> {
+    if (expectedVersion === undefined) {
+      this.db.query('DELETE FROM sessions WHERE id = ?').run(sessionId);
+      return true;
+    }
+
+    const result = this.db
+      .query(`DELETE FROM sessions WHERE id = ? AND expires_at > ? AND ${STORED_VERSION} = ?`)
+      .run(sessionId, Date.now(), expectedVersion);
+
+    return result.changes > 0;
+  }
+
+  async list(query: SessionListQuery): Promise<SessionPage> {
+    const rows = this.db
+      .query('SELECT summary FROM sessions WHERE owner = ? AND expires_at > ?')
+      .all(query.owner, Date.now()) as { summary: string }[];
+
+    const summaries = rows
+      .map(row => safeJsonParse<SessionSummary | null>(row.summary, null))
+      .filter((summary): summary is SessionSummary => summary !== null);
+
+    return pageSessions(summaries, query);
+  }
+
+  async count(): Promise<number> {
+    const row = this.db
+      .query('SELECT COUNT(*) AS total FROM sessions WHERE expires_at > ?')
+      .get(Date.now()) as { total: number };
+
+    return row.total;
+  }
+
+  private purgeExpired(): void {
+    const now = Date.now();
+
+    if (now - lastPurge < PURGE_INTERVAL_MS) {
+      return;
+    }
+
+    lastPurge = now;
+    this.db.query('DELETE FROM sessions WHERE expires_at <= ?').run(now);
+  }
+}
@@ -0,0 +1,93 @@
+/**
+ * Structured Review Requests
+ * Requests JSON findings from the model and repairs malformed output
+ */
+
+import type { ChatMessage, LLMCompletion, LLMProvider, ModelInfo } from '../types/index.ts';
+import { logger } from '../utils/logger.ts';
+import type { ContextService } from './context.ts';
+import { buildHistory } from './history.ts';
+import { parseStructuredReview } from './findings.ts';
+import type { StructuredReview } from './findings.ts';
+
+// Follow-up requests asking the model to fix malformed structured output
+const MAX_REPAIR_ATTEMPTS = 2;
+
+export interface StructuredReviewRequest {
+  systemPrompt: string;
+  userPrompt: string;
+  history: ChatMessage[];
+  modelInfo: ModelInfo;
+  model?: string;
+}
+
+export interface StructuredReviewOutcome {
+  completion: LLMCompletion;
+  structured: StructuredReview | null;
+  repairAttempts: number;
+}
+
+/**
+ * Request a structured review and repair malformed JSON output
+ * Returns structured: null when the output is still invalid after all repair passes
+ */
+export async function requestStructuredReview(
+  llmProvider: LLMProvider,
+  contextService: ContextService,
+  request: StructuredReviewRequest
+): Promise<StructuredReviewOutcome> {
+  const { systemPrompt, userPrompt, history, modelInfo, model } = request;
+
+  const budget = buildHistory({
+    systemPrompt,
+    history,
+    userPrompt,
+    model: modelInfo,
+  });
+
+  let completion = await llmProvider.reviewCode(
+    systemPrompt,
+    userPrompt,
+    budget.messages,
+    { model, maxTokens: budget.maxTokens, jsonMode: true }
+  );
+
+  let parsed = parseStructuredReview(completion.content);
+  let repairAttempts = 0;
+
+  while (!parsed.ok && repairAttempts < MAX_REPAIR_ATTEMPTS) {
+    repairAttempts++;
+
+    logger.warn('Structured review output invalid, requesting repair', {
+      attempt: repairAttempts,
+      error: parsed.error,
+    });
+
+    const repairPrompt = contextService.buildRepairPrompt(parsed.error);
+    const repairBudget = buildHistory({
+      systemPrompt,
+      history: [
+        ...history,
+        { role: 'user', content: userPrompt },
+        { role: 'assistant', content: completion.content },
+      ],
+      userPrompt: repairPrompt,
+      model: modelInfo,
+    });
+
+    completion = await llmProvider.reviewCode(
+      systemPrompt,
+      repairPrompt,
+      repairBudget.messages,
+      { model: completion.model, maxTokens: repairBudget.maxTokens, jsonMode: true }
+    );
+
+    parsed = parseStructuredReview(completion.content);
+  }
+
+  return {
+    completion,
+    structured: parsed.ok ? parsed.review : null,
+    repairAttempts,
+  };
+}
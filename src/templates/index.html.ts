@@ -14,6 +14,7 @@ export const indexHtml = `<!DOCTYPE html>
     <link rel="stylesheet" href="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/styles/github-dark.min.css">
     <script src="https://cdnjs.cloudflare.com/ajax/libs/highlight.js/11.9.0/highlight.min.js"></script>
     <script src="https://cdn.jsdelivr.net/npm/marked@11.1.1/marked.min.js"></script>
+    <script src="https://cdn.jsdelivr.net/npm/dompurify@3.1.6/dist/purify.min.js"></script>
     <style>
         * {
             margin: 0;
@@ -322,6 +323,13 @@ export const indexHtml = `<!DOCTYPE html>
             letter-spacing: 0.5px;
         }
 
+        .model-tag {
+            display: inline-block;
+            margin-left: 8px;
+            font-size: 0.7rem;
+            color: #888;
+        }
+
         .severity-info {
             background: rgba(59, 130, 246, 0.15);
             color: #60a5fa;
@@ -355,7 +363,16 @@ export const indexHtml = `<!DOCTYPE html>
             gap: 15px;
         }
 
-        .language-select {
+        .select-row {
+            display: flex;
+            gap: 12px;
+            flex-wrap: wrap;
+        }
+
+        .language-select,
+        .model-select,
+        .profile-select,
+        .mode-select {
             padding: 10px 14px;
             border: 1px solid rgba(255, 255, 255, 0.15);
             border-radius: 10px;
@@ -367,17 +384,32 @@ export const indexHtml = `<!DOCTYPE html>
             width: 250px;
         }
 
-        .language-select:focus {
+        .language-select:focus,
+        .model-select:focus,
+        .profile-select:focus,
+        .mode-select:focus {
             outline: none;
             border-color: #667eea;
             background: rgba(30, 30, 30, 1);
         }
 
-        .language-select option {
+        .language-select option,
+        .model-select option,
+        .profile-select option,
+        .mode-select option {
             background: #1a1a1a;
             color: #e8e8e8;
         }
 
+        .toggle-label {
+            display: flex;
+            align-items: center;
+            gap: 8px;
+            font-size: 0.85rem;
+            color: #aaa;
+            cursor: pointer;
+        }
+
         .input-row {
             display: flex;
             gap: 12px;
@@ -437,6 +469,98 @@ export const indexHtml = `<!DOCTYPE html>
             cursor: not-allowed;
         }
 
+        .diff-view {
+            white-space: pre;
+        }
+
+        .diff-add {
+            color: #4ade80;
+            background: rgba(34, 197, 94, 0.1);
+        }
+
+        .diff-del {
+            color: #f87171;
+            background: rgba(239, 68, 68, 0.1);
+        }
+
+        .diff-hunk {
+            color: #818cf8;
+        }
+
+        .diff-meta {
+            color: #888;
+        }
+
+        .fix-warnings {
+            color: #fbbf24;
+            font-size: 0.85rem;
+            margin: 0 0 12px 18px;
+        }
+
+        .action-row {
+            display: flex;
+            gap: 8px;
+            flex-wrap: wrap;
+            margin-top: 12px;
+        }
+
+        .action-button {
+            background: rgba(102, 126, 234, 0.15);
+            border: 1px solid rgba(102, 126, 234, 0.4);
+            color: #a5b4fc;
+            padding: 6px 14px;
+            border-radius: 8px;
+            font-size: 0.8rem;
+            width: auto;
+        }
+
+        .export-menu {
+            position: relative;
+        }
+
+        .export-menu summary {
+            list-style: none;
+            cursor: pointer;
+        }
+
+        .export-menu summary::-webkit-details-marker {
+            display: none;
+        }
+
+        .export-options {
+            position: absolute;
+            right: 0;
+            top: calc(100% + 6px);
+            display: flex;
+            flex-direction: column;
+            min-width: 200px;
+            background: rgba(20, 20, 20, 0.98);
+            border: 1px solid rgba(255, 255, 255, 0.1);
+            border-radius: 8px;
+            padding: 6px;
+        }
+
+        .export-options a {
+            color: #e5e5e5;
+            text-decoration: none;
+            font-size: 0.85rem;
+            padding: 8px 10px;
+            border-radius: 6px;
+        }
+
+        .export-options a:hover {
+            background: rgba(102, 126, 234, 0.15);
+        }
+
+        .export-options a.disabled {
+            color: #666;
+            cursor: not-allowed;
+        }
+
+        .export-options a.disabled:hover {
+            background: transparent;
+        }
+
         .loading {
             display: inline-block;
             width: 16px;
@@ -526,7 +650,10 @@ export const indexHtml = `<!DOCTYPE html>
                 width: 100%;
             }
 
-            .language-select {
+            .language-select,
+            .model-select,
+            .profile-select,
+            .mode-select {
                 width: 100%;
             }
         }
@@ -540,6 +667,17 @@ export const indexHtml = `<!DOCTYPE html>
                 <div class="logo">◇ CodeReview AI</div>
                 <div class="header-title">Powered by Groq & Hono</div>
             </div>
+            <details class="export-menu" x-show="sessionId" @click.outside="$el.open = false">
+                <summary class="action-button">Export</summary>
+                <div class="export-options" @click="$el.parentElement.open = false">
+                    <a :href="exportUrl('md')" download>Markdown transcript</a>
+                    <a :href="exportUrl('json')" download>JSON</a>
+                    <a :href="sarifAvailable ? exportUrl('sarif') : null"
+                       :class="{ disabled: !sarifAvailable }"
+                       :title="sarifAvailable ? '' : 'Run a structured review to export SARIF'"
+                       download>SARIF findings</a>
+                </div>
+            </details>
         </div>
 
         <!-- Chat Messages -->
@@ -558,8 +696,18 @@ export const indexHtml = `<!DOCTYPE html>
                 <div class="message" :class="message.role">
                     <div class="message-avatar" x-text="message.role === 'user' ? 'You' : 'AI'"></div>
                     <div class="message-content">
-                        <div x-show="message.severity" class="severity-badge" :class="'severity-' + message.severity" x-text="message.severity"></div>
+                        <div x-show="message.severity && (!message.mode || message.mode === 'review')" class="severity-badge" :class="'severity-' + message.severity" x-text="message.severity"></div>
+                        <span x-show="message.model" class="model-tag" x-text="message.model + modeLabel(message) + languageLabel(message) + (message.cached ? ' · cached' : '')"></span>
                         <div x-html="message.content"></div>
+                        <div class="action-row" x-show="message.patch">
+                            <button type="button" class="action-button" @click="copyPatch(message)" x-text="message.copied ? 'Copied' : 'Copy patch'"></button>
+                            <button type="button" class="action-button" :disabled="loading" x-show="message.patchApplicable && message.patchFiles && message.patchFiles.length === 1" @click="applyPatch(message)">Apply to editor</button>
+                        </div>
+                        <div class="action-row" x-show="message.id === lastReviewId && sessionId">
+                            <template x-for="action in actions" :key="action.id">
+                                <button type="button" class="action-button" :disabled="loading" @click="runAction(action)" x-text="action.label"></button>
+                            </template>
+                        </div>
                     </div>
                 </div>
             </template>
@@ -576,25 +724,47 @@ export const indexHtml = `<!DOCTYPE html>
         <!-- Input Area -->
         <div class="input-container">
             <form @submit.prevent="submitCode" class="input-wrapper">
-                <select x-model="language" class="language-select">
-                    <option value="">Select Language (Optional)</option>
-                    <option value="javascript">JavaScript</option>
-                    <option value="typescript">TypeScript</option>
-                    <option value="python">Python</option>
-                    <option value="java">Java</option>
-                    <option value="csharp">C#</option>
-                    <option value="go">Go</option>
-                    <option value="rust">Rust</option>
-                    <option value="php">PHP</option>
-                    <option value="ruby">Ruby</option>
-                    <option value="swift">Swift</option>
-                    <option value="kotlin">Kotlin</option>
-                    <option value="cpp">C++</option>
-                </select>
+                <div class="select-row">
+                    <select x-model="language" class="language-select">
+                        <option value="">Select Language (Optional)</option>
+                        <option value="javascript">JavaScript</option>
+                        <option value="typescript">TypeScript</option>
+                        <option value="python">Python</option>
+                        <option value="java">Java</option>
+                        <option value="csharp">C#</option>
+                        <option value="go">Go</option>
+                        <option value="rust">Rust</option>
+                        <option value="php">PHP</option>
+                        <option value="ruby">Ruby</option>
+                        <option value="swift">Swift</option>
+                        <option value="kotlin">Kotlin</option>
+                        <option value="cpp">C++</option>
+                    </select>
+                    <select x-model="model" class="model-select" x-show="models.length > 0">
+                        <template x-for="option in models" :key="option.id">
+                            <option :value="option.id" x-text="option.label + ' (' + Math.round(option.context_window / 1024) + 'K)'"></option>
+                        </template>
+                    </select>
+                    <select x-model="mode" class="mode-select" title="How the message is handled">
+                        <option value="auto">Auto-detect intent</option>
+                        <option value="review">Review code</option>
+                        <option value="explain">Explain code</option>
+                        <option value="chat">Chat</option>
+                    </select>
+                    <select x-model="profile" class="profile-select" x-show="profiles.length > 0">
+                        <template x-for="option in profiles" :key="option.id">
+                            <option :value="option.id" x-text="option.label" :title="option.description"></option>
+                        </template>
+                    </select>
+                    <label class="toggle-label">
+                        <input type="checkbox" x-model="structured">
+                        Structured findings
+                    </label>
+                </div>
                 <div class="input-row">
                     <textarea
                         x-model="code"
-                        placeholder="Paste your code here..."
+                        placeholder="Paste code or a unified diff, or ask a question..."
                         :disabled="loading"
                     ></textarea>
                     <button type="submit" :disabled="loading || !code.trim()">
@@ -627,10 +797,62 @@ export const indexHtml = `<!DOCTYPE html>
             return {
                 code: '',
                 language: '',
+                model: '',
+                models: [],
+                profile: '',
+                profiles: [],
+                mode: 'auto',
+                actions: [
+                    { id: 'explain', label: 'Explain' },
+                    { id: 'fix', label: 'Fix' },
+                    { id: 'tests', label: 'Write tests' },
+                    { id: 'docs', label: 'Add docs' },
+                ],
+                lastReviewId: null,
+                // SARIF needs structured findings from the last review
+                sarifAvailable: false,
+                structured: false,
                 messages: [],
                 loading: false,
                 sessionId: null,
 
+                async init() {
+                    await Promise.all([this.loadModels(), this.loadProfiles()]);
+                },
+
+                async loadModels() {
+                    // Fill the model dropdown from the catalog
+                    try {
+                        const response = await fetch('/api/models');
+                        if (!response.ok) return;
+
+                        const data = await response.json();
+                        this.models = data.data.models;
+                        this.model = data.data.default_model;
+                    } catch (error) {
+                        console.error('Failed to load models:', error);
+                    }
+                },
+
+                async loadProfiles() {
+                    // Fill the profile switcher with the available reviewer personas
+                    try {
+                        const response = await fetch('/api/profiles');
+                        if (!response.ok) return;
+
+                        const data = await response.json();
+                        this.profiles = data.data.profiles;
+                        this.profile = data.data.default_profile;
+                    } catch (error) {
+                        console.error('Failed to load profiles:', error);
+                    }
+                },
+
+                isDiff(text) {
+                    // Unified diffs are sent as "diff" so only the changed lines are reviewed
+                    return /^(diff --git |--- \\S)/m.test(text) && /^@@ -\\d+/m.test(text);
+                },
+
                 async submitCode() {
                     if (!this.code.trim() || this.loading) return;
 
@@ -645,6 +867,9 @@ export const indexHtml = `<!DOCTYPE html>
                     // Clear input
                     const codeToReview = this.code;
                     const selectedLanguage = this.language;
+                    const selectedModel = this.model;
+                    const selectedProfile = this.profile;
+                    const selectedMode = this.mode;
                     this.code = '';
 
                     // Set loading
@@ -654,16 +879,20 @@ export const indexHtml = `<!DOCTYPE html>
                     this.$nextTick(() => this.scrollToBottom());
 
                     try {
-                        // Submit to API
-                        const response = await fetch('/api/chat/review', {
+                        // Submit to streaming API
+                        const response = await fetch('/api/chat/review/stream', {
                             method: 'POST',
                             headers: {
                                 'Content-Type': 'application/json',
                             },
                             body: JSON.stringify({
                                 session_id: this.sessionId,
-                                code: codeToReview,
+                                [this.isDiff(codeToReview) ? 'diff' : 'code']: codeToReview,
                                 language: selectedLanguage || undefined,
+                                model: selectedModel || undefined,
+                                profile: selectedProfile || undefined,
+                                mode: selectedMode,
+                                structured: this.structured,
                             }),
                         });
 
@@ -672,23 +901,107 @@ export const indexHtml = `<!DOCTYPE html>
                             throw new Error(error.error?.message || 'Request failed');
                         }
 
-                        const data = await response.json();
+                        // Add assistant message that is filled as chunks arrive
+                        this.messages.push({
+                            id: Date.now() + 1,
+                            role: 'assistant',
+                            content: '',
+                            severity: null,
+                            model: null,
+                            cached: false,
+                            mode: null,
+                            modeSource: null,
+                            language: null,
+                            languageConfidence: 0,
+                            languageSource: null,
+                        });
+                        const assistantMessage = this.messages[this.messages.length - 1];
+                        let markdown = '';
+
+                        await this.readEventStream(response, (event, data) => {
+                            if (event === 'delta') {
+                                markdown += data.content;
+                                assistantMessage.content = this.formatReview(markdown);
+                                this.loading = false;
+                                this.$nextTick(() => this.scrollToBottom());
+                            } else if (event === 'severity') {
+                                assistantMessage.severity = data.severity;
+                            } else if (event === 'done') {
+                                // Store session ID
+                                if (data.session_id) {
+                                    this.sessionId = data.session_id;
+                                }
+                                assistantMessage.content = this.formatReview(data.review);
+                                assistantMessage.severity = data.severity;
+                                assistantMessage.model = data.model;
+                                assistantMessage.cached = data.cached;
+                                assistantMessage.mode = data.mode;
+                                assistantMessage.modeSource = data.mode_source;
+                                if (data.mode === 'review') {
+                                    this.lastReviewId = assistantMessage.id;
+                                    this.sarifAvailable = data.structured;
+                                }
+                                assistantMessage.language = data.language;
+                                assistantMessage.languageConfidence = data.language_confidence;
+                                assistantMessage.languageSource = data.language_source;
+                            } else if (event === 'error') {
+                                throw new Error(data.message || 'Request failed');
+                            }
+                        });
 
-                        // Store session ID
-                        if (data.data.session_id) {
-                            this.sessionId = data.data.session_id;
+                        // Scroll to bottom
+                        this.$nextTick(() => {
+                            this.scrollToBottom();
+                            this.highlightCode();
+                        });
+                    } catch (error) {
+                        alert('Error: ' + error.message);
+                    } finally {
+                        this.loading = false;
+                    }
+                },
+
+                async runAction(action) {
+                    // Follow-up actions work on the code from the session's last review
+                    if (!this.sessionId || this.loading) return;
+                    if (action.id === 'fix') return this.runFix(action);
+
+                    this.messages.push({
+                        id: Date.now(),
+                        role: 'user',
+                        content: '<p>' + this.escapeHtml(action.label) + '</p>',
+                    });
+                    this.loading = true;
+                    this.$nextTick(() => this.scrollToBottom());
+
+                    try {
+                        const response = await fetch('/api/chat/' + action.id, {
+                            method: 'POST',
+                            headers: {
+                                'Content-Type': 'application/json',
+                            },
+                            body: JSON.stringify({
+                                session_id: this.sessionId,
+                                model: this.model || undefined,
+                            }),
+                        });
+
+                        const data = await response.json();
+                        if (!response.ok) {
+                            throw new Error(data.error?.message || 'Request failed');
                         }
 
-                        // Add assistant message
-                        const assistantMessage = {
+                        this.messages.push({
                             id: Date.now() + 1,
                             role: 'assistant',
-                            content: this.formatReview(data.data.review),
-                            severity: data.data.severity,
-                        };
-                        this.messages.push(assistantMessage);
+                            content: this.formatReview(data.data.response),
+                            severity: null,
+                            model: data.data.model + ' · ' + action.id + (data.data.framework ? ' · ' + data.data.framework : ''),
+                            cached: false,
+                            mode: null,
+                            language: null,
+                        });
 
-                        // Scroll to bottom
                         this.$nextTick(() => {
                             this.scrollToBottom();
                             this.highlightCode();
@@ -700,6 +1013,119 @@ export const indexHtml = `<!DOCTYPE html>
                     }
                 },
 
+                async runFix(action) {
+                    // Fixes come back as a patch that the server checked against the reviewed code
+                    this.messages.push({
+                        id: Date.now(),
+                        role: 'user',
+                        content: '<p>' + this.escapeHtml(action.label) + '</p>',
+                    });
+                    this.loading = true;
+                    this.$nextTick(() => this.scrollToBottom());
+
+                    try {
+                        const response = await fetch('/api/chat/fix', {
+                            method: 'POST',
+                            headers: {
+                                'Content-Type': 'application/json',
+                            },
+                            body: JSON.stringify({
+                                session_id: this.sessionId,
+                                model: this.model || undefined,
+                            }),
+                        });
+
+                        const data = await response.json();
+                        if (!response.ok) {
+                            throw new Error(data.error?.message || 'Request failed');
+                        }
+
+                        this.messages.push({
+                            id: Date.now() + 1,
+                            role: 'assistant',
+                            content: this.formatFixWarnings(data.data.warnings) + this.formatPatch(data.data.patch),
+                            severity: null,
+                            model: data.data.model + ' · patch' + (data.data.attempts > 1 ? ' (' + data.data.attempts + ' attempts)' : ''),
+                            cached: false,
+                            mode: null,
+                            language: null,
+                            patch: data.data.patch,
+                            patchFiles: data.data.files,
+                            patchApplicable: data.data.applicable,
+                            copied: false,
+                        });
+
+                        this.$nextTick(() => this.scrollToBottom());
+                    } catch (error) {
+                        alert('Error: ' + error.message);
+                    } finally {
+                        this.loading = false;
+                    }
+                },
+
+                formatPatch(patch) {
+                    // Color each line of a unified diff by its role
+                    const lines = patch.replace(/\\n$/, '').split('\\n').map(line => {
+                        let type = '';
+                        if (line.startsWith('@@')) type = 'diff-hunk';
+                        else if (line.startsWith('diff ') || line.startsWith('--- ') || line.startsWith('+++ ')) type = 'diff-meta';
+                        else if (line.startsWith('+')) type = 'diff-add';
+                        else if (line.startsWith('-')) type = 'diff-del';
+                        return '<span class="' + type + '">' + this.escapeHtml(line) + '</span>';
+                    });
+                    return '<div class="code-block diff-view">' + lines.join('\\n') + '</div>';
+                },
+
+                formatFixWarnings(warnings) {
+                    // Say where the patched code differs from what was submitted
+                    if (!warnings || warnings.length === 0) return '';
+                    return '<ul class="fix-warnings">' + warnings.map(warning => '<li>' + this.escapeHtml(warning) + '</li>').join('') + '</ul>';
+                },
+
+                async copyPatch(message) {
+                    await navigator.clipboard.writeText(message.patch);
+                    message.copied = true;
+                    setTimeout(() => { message.copied = false; }, 2000);
+                },
+
+                applyPatch(message) {
+                    // Load the patched code into the editor so it can be reviewed again
+                    this.code = message.patchFiles[0].content;
+                },
+
+                async readEventStream(response, onEvent) {
+                    // Parse Server-Sent Events from a fetch response body
+                    const reader = response.body.getReader();
+                    const decoder = new TextDecoder();
+                    let buffer = '';
+
+                    while (true) {
+                        const { value, done } = await reader.read();
+                        if (done) break;
+
+                        buffer += decoder.decode(value, { stream: true });
+                        const blocks = buffer.split('\\n\\n');
+                        buffer = blocks.pop();
+
+                        for (const block of blocks) {
+                            let event = 'message';
+                            let data = '';
+
+                            for (const line of block.split('\\n')) {
+                                if (line.startsWith('event:')) {
+                                    event = line.slice(6).trim();
+                                } else if (line.startsWith('data:')) {
+                                    data += line.slice(5).trim();
+                                }
+                            }
+
+                            if (data) {
+                                onEvent(event, JSON.parse(data));
+                            }
+                        }
+                    }
+                },
+
                 preprocessMarkdown(text) {
                     // Fix common markdown issues from AI responses
                     let processed = text;
@@ -875,6 +1301,23 @@ export const indexHtml = `<!DOCTYPE html>
                     return codePatterns.some(pattern => pattern.test(line));
                 },
 
+                exportUrl(format) {
+                    return '/api/chat/session/' + encodeURIComponent(this.sessionId) + '/export?format=' + format;
+                },
+
+                modeLabel(message) {
+                    // Show how the message was handled, and whether the server chose it
+                    if (!message.mode) return '';
+                    return ' · ' + message.mode + (message.modeSource === 'auto' ? ' (auto)' : '');
+                },
+
+                languageLabel(message) {
+                    // Detected languages show how sure the server was
+                    if (!message.language) return '';
+                    if (message.languageSource !== 'content') return ' · ' + message.language;
+                    return ' · ' + message.language + ' (' + Math.round(message.languageConfidence * 100) + '%)';
+                },
+
                 detectLanguage(code) {
                     // Simple language detection based on common patterns
                     if (code.includes('function') || code.includes('const ') || code.includes('let ') ||
@@ -909,7 +1352,9 @@ export const indexHtml = `<!DOCTYPE html>
                     try {
                         // Preprocess the markdown to fix common issues
                         const preprocessed = this.preprocessMarkdown(text);
-                        return marked.parse(preprocessed);
+                        // Model output is untrusted and streamed unsanitized, so strip any
+                        // markup that could run script before it reaches x-html
+                        return DOMPurify.sanitize(marked.parse(preprocessed));
                     } catch (err) {
                         console.error('Markdown parsing error:', err);
                         // Fallback to simple text formatting
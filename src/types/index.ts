@@ -2,47 +2,284 @@
  * Type Definitions
  */
 
+import type { SessionIndexObject, SessionObject } from '../services/sessionObjects.ts';
+
 // Environment Configuration
 export interface EnvConfig {
   NODE_ENV: string;
+  LLM_PROVIDER: string;
+  LLM_MODEL?: string;
   GROQ_API_KEY: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_API_KEY?: string;
+  ALLOWED_MODELS?: string;
+  LLM_FALLBACK_CHAIN?: string;
+  REVIEW_CACHE_TTL: string;
+  LLM_TIMEOUT_MS: string;
+  LLM_MAX_RETRIES: string;
+  CIRCUIT_BREAKER_THRESHOLD: string;
+  CIRCUIT_BREAKER_RESET_SECONDS: string;
   ACCESS_TOKEN?: string;
+  // Comma-separated owner:token pairs, each token identifying its owner
+  ACCESS_TOKENS?: string;
   ALLOWED_ORIGINS: string;
   RATE_LIMIT_REQUESTS: string;
   RATE_LIMIT_WINDOW: string;
   MAX_CODE_LENGTH: string;
+  MAX_TOTAL_CODE_LENGTH: string;
+  MAX_CHUNKED_CODE_LENGTH: string;
+  REVIEW_CHUNK_CONCURRENCY: string;
+  MAX_GUIDELINES_LENGTH: string;
+  // Bun only: directory for project guideline documents (in memory when unset)
+  GUIDELINES_DIR?: string;
+  // Session backend: durable, kv, memory or sqlite (Bun only); the first bound of durable
+  // and kv, otherwise memory
+  SESSION_STORE?: string;
+  // Bun only: SQLite database file for the sqlite session store
+  SESSION_DB_PATH?: string;
 }
 
 // Cloudflare Workers Bindings
 export interface Bindings {
-  GROQ_API_KEY: string;
+  LLM_PROVIDER?: string;
+  LLM_MODEL?: string;
+  GROQ_API_KEY?: string;
+  OPENAI_BASE_URL?: string;
+  OPENAI_API_KEY?: string;
+  ALLOWED_MODELS?: string;
+  LLM_FALLBACK_CHAIN?: string;
+  REVIEW_CACHE_TTL?: string;
+  LLM_TIMEOUT_MS?: string;
+  LLM_MAX_RETRIES?: string;
+  CIRCUIT_BREAKER_THRESHOLD?: string;
+  CIRCUIT_BREAKER_RESET_SECONDS?: string;
   ACCESS_TOKEN?: string;
+  ACCESS_TOKENS?: string;
   SESSIONS?: KVNamespace;
+  SESSION_OBJECTS?: DurableObjectNamespace<SessionObject>;
+  SESSION_INDEX?: DurableObjectNamespace<SessionIndexObject>;
   NODE_ENV?: string;
   ALLOWED_ORIGINS?: string;
   RATE_LIMIT_REQUESTS?: string;
   RATE_LIMIT_WINDOW?: string;
   MAX_CODE_LENGTH?: string;
+  MAX_TOTAL_CODE_LENGTH?: string;
+  MAX_CHUNKED_CODE_LENGTH?: string;
+  REVIEW_CHUNK_CONCURRENCY?: string;
+  MAX_GUIDELINES_LENGTH?: string;
+  SESSION_STORE?: string;
 }
 
 // Chat Message (Groq API format)
 export interface ChatMessage {
   role: 'system' | 'user' | 'assistant';
   content: string;
+  // Structured findings attached to assistant review messages (not sent to the model)
+  findings?: ReviewFinding[];
+  // Rule packs (id@version) used for assistant review messages
+  rule_packs?: string[];
+  // How the assistant handled the turn, so follow-ups can be classified
+  mode?: ChatMode;
+  // Follow-up action that produced the message
+  action?: FollowUpAction;
+}
+
+// How a message is handled: full review, conversation, or explanation of code
+export type ChatMode = 'review' | 'chat' | 'explain';
+
+// Mode requested by the client; 'auto' lets the server classify the message
+export type RequestedMode = ChatMode | 'auto';
+
+// Resolved mode and whether the user chose it or the classifier did
+export interface ModeClassification {
+  mode: ChatMode;
+  source: 'user' | 'auto';
+  reason: string;
+}
+
+// Review Severity
+export type Severity = 'info' | 'warning' | 'critical';
+
+// Review Finding Category
+export type FindingCategory =
+  | 'security'
+  | 'bug'
+  | 'performance'
+  | 'quality'
+  | 'best-practice';
+
+// Structured Review Finding
+export interface ReviewFinding {
+  id: string;
+  category: FindingCategory;
+  severity: Severity;
+  line_start: number | null;
+  line_end: number | null;
+  message: string;
+  suggested_fix: string | null;
+  file?: string;
+}
+
+// File Submitted for Multi-File Review
+export interface ReviewFile {
+  path: string;
+  content: string;
+  language?: string;
+}
+
+// Unified Diff Line
+export interface DiffLine {
+  type: 'add' | 'delete' | 'context';
+  content: string;
+  old_line: number | null;
+  new_line: number | null;
+}
+
+// Unified Diff Hunk
+export interface DiffHunk {
+  old_start: number;
+  old_lines: number;
+  new_start: number;
+  new_lines: number;
+  header: string;
+  lines: DiffLine[];
+}
+
+// File Changed by a Unified Diff
+export interface DiffFile {
+  path: string;
+  old_path: string | null;
+  status: 'added' | 'modified' | 'deleted' | 'renamed';
+  binary: boolean;
+  hunks: DiffHunk[];
+}
+
+// LLM Completion Options
+export interface CompletionOptions {
+  model?: string;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  jsonMode?: boolean;
+  signal?: AbortSignal;
+  // False when the caller has another model to try, so a rate limit fails at once instead of waiting out Retry-After
+  retryRateLimits?: boolean;
+}
+
+// Streaming callback invoked for every content chunk
+export type DeltaHandler = (delta: string) => void | Promise<void>;
+
+// Per-call review options
+export interface ReviewCallOptions {
+  model?: string;
+  maxTokens?: number;
+  jsonMode?: boolean;
+  onDelta?: DeltaHandler;
+}
+
+// Fallback Chain Entry
+export interface FallbackEntry {
+  provider: string;
+  model: string;
+}
+
+// Model Catalog Entry
+export interface ModelInfo {
+  id: string;
+  provider: string;
+  label: string;
+  contextWindow: number;
+  maxOutputTokens: number;
+}
+
+// LLM Completion Result
+export interface LLMCompletion {
+  content: string;
+  model: string;
+  provider: string;
+}
+
+// LLM Provider
+export interface LLMProvider {
+  readonly name: string;
+  readonly model: string;
+  chatCompletion(messages: ChatMessage[], options?: CompletionOptions): Promise<LLMCompletion>;
+  chatCompletionStream(
+    messages: ChatMessage[],
+    onDelta: DeltaHandler,
+    options?: CompletionOptions
+  ): Promise<LLMCompletion>;
+  reviewCode(
+    systemPrompt: string,
+    userPrompt: string,
+    previousMessages?: ChatMessage[],
+    options?: ReviewCallOptions
+  ): Promise<LLMCompletion>;
+  sanitizeResponse(response: string): string;
 }
 
 // Code Review Request
 export interface CodeReviewRequest {
   session_id: string;
-  code: string;
+  code?: string;
+  diff?: string;
+  files?: ReviewFile[];
   language?: string;
   context?: string;
+  model?: string;
+  structured?: boolean;
+  force_refresh?: boolean;
+  profile?: string;
+  project_id?: string;
+  mode?: RequestedMode;
+}
+
+// Options for processing a code review
+export interface ReviewOptions {
+  inputType?: 'code' | 'diff' | 'files';
+  language?: string;
+  context?: string;
+  model?: string;
+  structured?: boolean;
+  forceRefresh?: boolean;
+  profile?: string;
+  projectId?: string;
+  mode?: RequestedMode;
+  // Caller's identity: a session created for this review belongs to it, and another owner's session is refused
+  owner?: string;
+}
+
+// Language of the reviewed code and where it came from
+export interface LanguageDetection {
+  language: string | null;
+  confidence: number;
+  source: 'user' | 'path' | 'shebang' | 'content' | 'none';
+}
+
+// Code Review Result
+export interface CodeReviewResult {
+  review: string;
+  severity: Severity;
+  findings: ReviewFinding[];
+  suggestions: string[];
+  sessionId: string;
+  model: string;
+  provider: string;
+  cached: boolean;
+  language: LanguageDetection;
+  rulePacks: string[];
+  profile: string;
+  projectId: string | null;
+  mode: ModeClassification;
+  // Whether findings came from a valid structured response rather than only the pre-checks
+  structured: boolean;
 }
 
 // Code Review Response
 export interface CodeReviewResponse {
   review: string;
-  severity: 'info' | 'warning' | 'critical';
+  severity: Severity;
+  findings: ReviewFinding[];
   suggestions: string[];
   timestamp: string;
 }
@@ -50,12 +287,117 @@ export interface CodeReviewResponse {
 // Chat Session
 export interface ChatSession {
   id: string;
+  // Incremented on every write; stored sessions from before versioning read as 0
+  version: number;
+  // Identity from the auth layer; sessions from before ownership have none
+  owner?: string;
+  // Short label from the first input, shown in session listings
+  title?: string;
   messages: ChatMessage[];
+  // Most recently reviewed code, the target of follow-up actions
+  last_review?: ReviewedCode;
   created_at: string;
   updated_at: string;
   expires_at: string;
 }
 
+// Index entry for a stored session, used for listing and counts
+export interface SessionSummary {
+  id: string;
+  owner?: string;
+  title: string | null;
+  message_count: number;
+  created_at: string;
+  updated_at: string;
+  expires_at: string;
+}
+
+// Page of an owner's sessions, ordered by a timestamp with the ID as tie-breaker
+export interface SessionListQuery {
+  owner: string;
+  limit: number;
+  sort: 'created_at' | 'updated_at';
+  order: 'asc' | 'desc';
+  cursor?: string;
+}
+
+export interface SessionPage {
+  sessions: SessionSummary[];
+  next_cursor: string | null;
+}
+
+// Redacted input of the last review in a session
+export interface ReviewedCode {
+  input_type: 'code' | 'diff' | 'files';
+  // Code or diff text; multi-file reviews keep their files instead
+  code?: string;
+  files?: ReviewFile[];
+  language: string | null;
+  review: string;
+  findings: ReviewFinding[];
+  // Whether findings came from a valid structured response; missing on older sessions
+  structured?: boolean;
+  // How the stored text differs from what was submitted, by path; only changed paths are listed
+  source_changes?: Record<string, SourceChange[]>;
+  reviewed_at: string;
+}
+
+// Ways reviewed code is changed before it reaches the model and storage
+export type SourceChange = 'redacted' | 'markup' | 'whitespace';
+
+// Follow-up actions on the last reviewed code
+export type FollowUpAction = 'explain' | 'fix' | 'tests' | 'docs';
+
+// Options for running a follow-up action
+export interface ActionOptions {
+  context?: string;
+  model?: string;
+  owner?: string;
+}
+
+// Follow-up Action Result
+export interface ActionResult {
+  action: FollowUpAction;
+  response: string;
+  code: string | null;
+  framework: string | null;
+  language: string | null;
+  sessionId: string;
+  model: string;
+  provider: string;
+}
+
+// Options for generating a fix patch
+export interface FixOptions {
+  findingIds?: string[];
+  context?: string;
+  model?: string;
+  owner?: string;
+}
+
+// File changed by a fix patch
+export interface FixedFile {
+  path: string;
+  content: string;
+  additions: number;
+  deletions: number;
+}
+
+// Fix Patch Result
+export interface FixResult {
+  patch: string;
+  files: FixedFile[];
+  findingIds: string[];
+  attempts: number;
+  // Differences between the patched files and the submitted code, beyond the fix itself
+  warnings: string[];
+  // Whether the patched files can replace the submitted code; false when they hold placeholders
+  applicable: boolean;
+  sessionId: string;
+  model: string;
+  provider: string;
+}
+
 // API Response
 export interface APIResponse<T = any> {
   success: boolean;
@@ -69,11 +411,46 @@ export interface APIResponse<T = any> {
 
 // Code Review Context
 export interface CodeReviewContext {
-  guidelines: string;
+  inputRules: string;
   commonIssues: string[];
   bestPractices: string[];
 }
 
+// Review Profile (reviewer persona)
+export interface ReviewProfile {
+  id: string;
+  label: string;
+  description: string;
+  // Role and focus areas at the top of the system prompt
+  guidelines: string;
+  // Markdown sections that follow the severity line in free-text reviews
+  outputSections: string;
+  // What each severity level means for this profile
+  severity: Record<Severity, string>;
+}
+
+// Project Guideline Document (house rules merged into review prompts)
+export interface ProjectGuidelines {
+  project_id: string;
+  name: string;
+  content: string;
+  // Identity that saved the document first; only it may replace or delete it
+  owner?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+// Language Rule Pack added to review prompts
+export interface RulePack {
+  id: string;
+  version: string;
+  // Language identifiers the pack applies to
+  languages: string[];
+  pitfalls: string[];
+  idioms: string[];
+  securitySinks: string[];
+}
+
 // Rate Limit Info
 export interface RateLimitInfo {
   limit: number;
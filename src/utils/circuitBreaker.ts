@@ -0,0 +1,154 @@
+/**
+ * Circuit Breaker
+ * Fails fast after repeated upstream failures and probes again after a cool-down
+ */
+
+import { CircuitOpenError } from './errors.ts';
+import { logger } from './logger.ts';
+
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+export interface CircuitBreakerStatus {
+  name: string;
+  state: CircuitState;
+  failures: number;
+  openedAt: string | null;
+  retryAt: string | null;
+}
+
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private failures: number = 0;
+  private openedAt: number | null = null;
+  private name: string;
+  private failureThreshold: number;
+  private resetTimeoutMs: number;
+
+  constructor(name: string, failureThreshold: number, resetTimeoutSeconds: number) {
+    this.name = name;
+    this.failureThreshold = failureThreshold;
+    this.resetTimeoutMs = resetTimeoutSeconds * 1000;
+  }
+
+  /**
+   * Update thresholds without losing the current state
+   */
+  configure(failureThreshold: number, resetTimeoutSeconds: number): void {
+    this.failureThreshold = failureThreshold;
+    this.resetTimeoutMs = resetTimeoutSeconds * 1000;
+  }
+
+  /**
+   * Run fn through the breaker
+   * isFailure decides whether an error counts against the upstream
+   */
+  async execute<T>(
+    fn: () => Promise<T>,
+    isFailure: (error: unknown) => boolean = () => true
+  ): Promise<T> {
+    this.checkState();
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.onFailure();
+      } else if (this.state === 'half_open') {
+        // The upstream answered, so it is reachable again
+        this.onSuccess();
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get current breaker status
+   */
+  getStatus(): CircuitBreakerStatus {
+    return {
+      name: this.name,
+      state: this.currentState(),
+      failures: this.failures,
+      openedAt: this.openedAt ? new Date(this.openedAt).toISOString() : null,
+      retryAt: this.openedAt ? new Date(this.openedAt + this.resetTimeoutMs).toISOString() : null,
+    };
+  }
+
+  /**
+   * Throw if the breaker is open, or move to half-open once the cool-down passed
+   */
+  private checkState(): void {
+    if (this.state !== 'open') {
+      return;
+    }
+
+    if (this.currentState() === 'half_open') {
+      this.state = 'half_open';
+      logger.info('Circuit breaker half-open', { name: this.name });
+      return;
+    }
+
+    throw new CircuitOpenError('AI service temporarily unavailable', {
+      breaker: this.name,
+      retryAt: this.getStatus().retryAt,
+    });
+  }
+
+  private currentState(): CircuitState {
+    if (this.state === 'open' && this.openedAt && Date.now() - this.openedAt >= this.resetTimeoutMs) {
+      return 'half_open';
+    }
+    return this.state;
+  }
+
+  private onSuccess(): void {
+    if (this.state !== 'closed') {
+      logger.info('Circuit breaker closed', { name: this.name });
+    }
+    this.state = 'closed';
+    this.failures = 0;
+    this.openedAt = null;
+  }
+
+  private onFailure(): void {
+    this.failures++;
+
+    if (this.state === 'half_open' || this.failures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+      logger.warn('Circuit breaker opened', { name: this.name, failures: this.failures });
+    }
+  }
+}
+
+// Breakers live for the lifetime of the isolate/process so state survives across requests
+const breakers = new Map<string, CircuitBreaker>();
+
+/**
+ * Get or create a named circuit breaker
+ */
+export function getCircuitBreaker(
+  name: string,
+  failureThreshold: number,
+  resetTimeoutSeconds: number
+): CircuitBreaker {
+  let breaker = breakers.get(name);
+
+  if (!breaker) {
+    breaker = new CircuitBreaker(name, failureThreshold, resetTimeoutSeconds);
+    breakers.set(name, breaker);
+  } else {
+    breaker.configure(failureThreshold, resetTimeoutSeconds);
+  }
+
+  return breaker;
+}
+
+/**
+ * Get status of every circuit breaker (for health check)
+ */
+export function getCircuitBreakerStatuses(): CircuitBreakerStatus[] {
+  return Array.from(breakers.values()).map(breaker => breaker.getStatus());
+}
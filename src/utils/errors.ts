@@ -34,8 +34,44 @@ export class RateLimitError extends AppError {
 }
 
 export class AIServiceError extends AppError {
+  constructor(message: string, details?: any, code: string = 'AI_SERVICE_ERROR') {
+    super(message, 503, code, details);
+  }
+}
+
+export class AITimeoutError extends AIServiceError {
+  constructor(message: string = 'AI request timed out', details?: any) {
+    super(message, details, 'AI_TIMEOUT');
+  }
+}
+
+export class CircuitOpenError extends AIServiceError {
+  constructor(message: string = 'AI service temporarily unavailable', details?: any) {
+    super(message, details, 'AI_CIRCUIT_OPEN');
+  }
+}
+
+export class ForbiddenError extends AppError {
+  constructor(message: string = 'Not allowed', details?: any) {
+    super(message, 403, 'FORBIDDEN', details);
+  }
+}
+
+export class NotFoundError extends AppError {
+  constructor(message: string, details?: any) {
+    super(message, 404, 'NOT_FOUND', details);
+  }
+}
+
+export class PatchError extends AppError {
   constructor(message: string, details?: any) {
-    super(message, 503, 'AI_SERVICE_ERROR', details);
+    super(message, 422, 'PATCH_FAILED', details);
+  }
+}
+
+export class ExportError extends AppError {
+  constructor(message: string, details?: any) {
+    super(message, 422, 'EXPORT_UNAVAILABLE', details);
   }
 }
 
@@ -45,6 +81,29 @@ export class SessionError extends AppError {
   }
 }
 
+export class ConflictError extends AppError {
+  constructor(message: string, details?: any) {
+    super(message, 409, 'SESSION_CONFLICT', details);
+  }
+}
+
+export class PreconditionFailedError extends AppError {
+  constructor(message: string, details?: any) {
+    super(message, 412, 'PRECONDITION_FAILED', details);
+  }
+}
+
+export interface RetryOptions {
+  // Return false to stop retrying and rethrow the error immediately
+  shouldRetry?: (error: unknown, attempt: number) => boolean;
+  // Return a delay in ms to override the exponential backoff (e.g. from Retry-After)
+  getDelay?: (error: unknown, attempt: number) => number | undefined;
+  // Upper bound for any single delay
+  maxDelay?: number;
+  // Rethrow the last error instead of wrapping it in RETRY_EXHAUSTED
+  rethrowLastError?: boolean;
+}
+
 /**
  * Retry utility with exponential backoff
  */
@@ -52,7 +111,8 @@ export async function retryWithBackoff<T>(
   fn: () => Promise<T>,
   maxRetries: number = 3,
   initialDelay: number = 1000,
-  errorMessage: string = 'Operation failed after retries'
+  errorMessage: string = 'Operation failed after retries',
+  options: RetryOptions = {}
 ): Promise<T> {
   let lastError: Error | null = null;
 
@@ -62,13 +122,23 @@ export async function retryWithBackoff<T>(
     } catch (error) {
       lastError = error as Error;
 
+      if (options.shouldRetry && !options.shouldRetry(error, attempt)) {
+        throw error;
+      }
+
       if (attempt < maxRetries - 1) {
-        const delay = initialDelay * Math.pow(2, attempt);
+        const backoff = initialDelay * Math.pow(2, attempt);
+        const requested = options.getDelay?.(error, attempt);
+        const delay = Math.min(requested ?? backoff, options.maxDelay ?? Infinity);
         await new Promise(resolve => setTimeout(resolve, delay));
       }
     }
   }
 
+  if (options.rethrowLastError && lastError) {
+    throw lastError;
+  }
+
   throw new AppError(
     errorMessage,
     500,
@@ -77,6 +147,27 @@ export async function retryWithBackoff<T>(
   );
 }
 
+/**
+ * Parse a Retry-After header (delta seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null | undefined): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const seconds = Number(value);
+  if (!isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
 /**
  * Safe JSON parse with fallback
  */
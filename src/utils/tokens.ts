@@ -0,0 +1,50 @@
+/**
+ * Token Estimation
+ * Fast approximate token counts for budgeting prompts without a tokenizer
+ */
+
+import type { ChatMessage } from '../types/index.ts';
+
+// Chat formats add a few tokens per message for role and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+// Roughly how many characters of a word fit in one BPE token
+const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimate the token count of a text
+ * Words cost about one token per four characters, punctuation and symbols one each,
+ * which tracks BPE tokenizers closely for both prose and code
+ */
+export function estimateTokens(text: string): number {
+  if (!text) {
+    return 0;
+  }
+
+  let tokens = 0;
+  const pieces = text.match(/[A-Za-z0-9_]+|[^\sA-Za-z0-9_]/g) || [];
+
+  for (const piece of pieces) {
+    tokens += piece.length > 1 ? Math.ceil(piece.length / CHARS_PER_TOKEN) : 1;
+  }
+
+  // Long runs of whitespace (indentation) also cost tokens
+  const whitespaceRuns = text.match(/\s{4,}/g) || [];
+  tokens += whitespaceRuns.length;
+
+  return tokens;
+}
+
+/**
+ * Estimate the token count of a single chat message
+ */
+export function estimateMessageTokens(message: ChatMessage): number {
+  return estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+}
+
+/**
+ * Estimate the token count of a list of chat messages
+ */
+export function estimateMessagesTokens(messages: ChatMessage[]): number {
+  return messages.reduce((total, message) => total + estimateMessageTokens(message), 0);
+}
@@ -10,14 +10,21 @@ import { createCorsMiddleware } from './middleware/cors.ts';
 import { createRateLimitMiddleware } from './middleware/rateLimit.ts';
 import { createAuthMiddleware } from './middleware/auth.ts';
 import { createContextService } from './services/context.ts';
-import { createGroqService } from './services/groq.ts';
+import { createLLMProvider } from './services/llm.ts';
+import { createReviewCache } from './services/cache.ts';
+import { createChunkedReviewService } from './services/chunkedReview.ts';
+import { createGuidelineService } from './services/guidelines.ts';
 import { createSessionService } from './services/session.ts';
+import { createSessionStore } from './services/sessionStore.ts';
 import { AppError } from './utils/errors.ts';
 import { logger as appLogger } from './utils/logger.ts';
 
 // Import routes
 import chatRoutes from './routes/chat.ts';
 import healthRoutes from './routes/health.ts';
+import modelRoutes from './routes/models.ts';
+import profileRoutes from './routes/profiles.ts';
+import projectRoutes from './routes/projects.ts';
 import pageRoutes from './routes/pages.ts';
 
 // Create Hono app with bindings type
@@ -69,17 +76,27 @@ app.use('*', async (c, next) => {
 
     // Initialize services
     const contextService = createContextService();
-    const groqService = createGroqService(config);
+    const llmProvider = createLLMProvider(config);
+    const reviewCache = createReviewCache(config, c.env.SESSIONS);
+    const chunkedReviewService = createChunkedReviewService(config, contextService, llmProvider);
+    const guidelineService = createGuidelineService(config, c.env.SESSIONS);
     const sessionService = createSessionService(
       contextService,
-      groqService,
-      c.env.SESSIONS
+      llmProvider,
+      createSessionStore(config, c.env.SESSIONS, {
+        sessions: c.env.SESSION_OBJECTS,
+        index: c.env.SESSION_INDEX,
+      }),
+      reviewCache,
+      chunkedReviewService,
+      guidelineService
     );
 
     // Store services in context
     c.set('contextService', contextService);
-    c.set('groqService', groqService);
+    c.set('llmProvider', llmProvider);
     c.set('sessionService', sessionService);
+    c.set('guidelineService', guidelineService);
 
     await next();
   } catch (error) {
@@ -112,6 +129,9 @@ app.use('/api/*', async (c, next) => {
 // Mount routes
 app.route('/', pageRoutes);
 app.route('/api/chat', chatRoutes);
+app.route('/api/models', modelRoutes);
+app.route('/api/profiles', profileRoutes);
+app.route('/api/projects', projectRoutes);
 app.route('/health', healthRoutes);
 
 // 404 handler
@@ -128,4 +148,7 @@ app.notFound((c) => {
   );
 });
 
+// Durable Object classes for the durable session store
+export { SessionIndexObject, SessionObject } from './services/sessionObjects.ts';
+
 export default app;